@@ -0,0 +1,19 @@
+/**
+ * Loads the built `error-replay/node` entry the way consumers do, with
+ * both require() and import, and checks its exports.
+ */
+
+import { createRequire } from 'module';
+import assert from 'assert';
+
+const require = createRequire(import.meta.url);
+
+const required = require('error-replay/node');
+const imported = await import('error-replay/node');
+
+for (const entry of [required, imported]) {
+    assert.strictEqual(typeof entry.symbolicate, 'function', 'symbolicate is exported');
+    assert.strictEqual(typeof entry.parseSourceMap, 'function', 'parseSourceMap is exported');
+}
+
+console.log('error-replay/node loads with require() and import');
@@ -6,11 +6,15 @@
 
 import { InputAction, DetectorCleanup } from '../types';
 import { getElementIdentifier } from '../utils/element-identifier';
+import { CaptureComponentsOption } from '../utils/component-resolver';
+import { ReactSnapshotOptions } from '../utils/react-detector';
 import { getActionMetadata } from '../utils/action-metadata';
 import { addCapturedListener } from '../utils/event-helpers';
 
 export interface CheckboxDetectorOptions {
-    captureComponents: boolean;
+    captureComponents: CaptureComponentsOption;
+    /** Set when `captureComponentState` is enabled */
+    componentState?: ReactSnapshotOptions;
     onAction: (action: InputAction) => void;
 }
 
@@ -18,7 +22,7 @@ export interface CheckboxDetectorOptions {
  * Create a checkbox detector that tracks checkbox and radio button changes
  */
 export function createCheckboxDetector(options: CheckboxDetectorOptions): DetectorCleanup {
-    const { captureComponents, onAction } = options;
+    const { captureComponents, componentState, onAction } = options;
 
     const handleChange = (event: Event) => {
         const target = event.target;
@@ -33,12 +37,13 @@ export function createCheckboxDetector(options: CheckboxDetectorOptions): Detect
         }
 
         // Get element info
-        const elementInfo = getElementIdentifier(target, captureComponents);
+        const elementInfo = getElementIdentifier(target, captureComponents, componentState);
 
         const action: InputAction = {
             type: 'input',
             element: elementInfo.identifier,
             component: elementInfo.component,
+            componentSnapshot: elementInfo.componentSnapshot,
             inputType: 'change',
             value: target.checked ? 'checked' : 'unchecked',
             valueLength: 1,
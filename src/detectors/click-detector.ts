@@ -6,11 +6,15 @@
 
 import { ClickAction, DetectorCleanup } from '../types';
 import { getElementIdentifier } from '../utils/element-identifier';
+import { CaptureComponentsOption } from '../utils/component-resolver';
+import { ReactSnapshotOptions } from '../utils/react-detector';
 import { getActionMetadata } from '../utils/action-metadata';
 import { addCapturedListeners } from '../utils/event-helpers';
 
 export interface ClickDetectorOptions {
-    captureComponents: boolean;
+    captureComponents: CaptureComponentsOption;
+    /** Set when `captureComponentState` is enabled */
+    componentState?: ReactSnapshotOptions;
     onAction: (action: ClickAction) => void;
 }
 
@@ -18,7 +22,7 @@ export interface ClickDetectorOptions {
  * Create a click detector that tracks all click/touch events
  */
 export function createClickDetector(options: ClickDetectorOptions): DetectorCleanup {
-    const { captureComponents, onAction } = options;
+    const { captureComponents, componentState, onAction } = options;
 
     const handleClick = (event: MouseEvent | TouchEvent) => {
         const target = event.target as Element;
@@ -37,13 +41,14 @@ export function createClickDetector(options: ClickDetectorOptions): DetectorClea
         }
 
         // Get element info
-        const elementInfo = getElementIdentifier(target, captureComponents);
+        const elementInfo = getElementIdentifier(target, captureComponents, componentState);
 
         const action: ClickAction = {
             type: 'click',
             element: elementInfo.identifier,
             component: elementInfo.component,
             componentPath: elementInfo.componentPath,
+            componentSnapshot: elementInfo.componentSnapshot,
             text: elementInfo.text,
             position: { x, y },
             ...getActionMetadata()
@@ -1,72 +1,180 @@
 /**
  * Console Detector
- * 
- * Captures console.error and console.warn calls.
+ *
+ * Captures console calls (error and warn by default) with serialized,
+ * sanitized arguments.
  */
 
-import { ConsoleAction, DetectorCleanup } from '../types';
+import { ConsoleAction, ConsoleLevel, ConsolePromoteRule, DetectorCleanup, TrackConsoleConfig } from '../types';
 import { getActionMetadata } from '../utils/action-metadata';
+import { serializeValue } from '../utils/serialize';
+import { sanitizeData, redactSensitiveData } from '../utils/sanitizer';
 
 export interface ConsoleDetectorOptions {
     onAction: (action: ConsoleAction) => void;
+    /** Called for messages matching a `promote` rule, after `onAction` */
+    onPromote?: (action: ConsoleAction) => void;
+    /** Patterns from the `sanitize` option, also applied to argument keys */
+    sanitizePatterns?: string[];
+    trackConfig?: TrackConsoleConfig;
+}
+
+const DEFAULT_LEVELS: ConsoleLevel[] = ['error', 'warn'];
+
+// Levels whose call site is recorded with `captureStack`
+const STACK_LEVELS: ConsoleLevel[] = ['error', 'assert', 'trace'];
+
+const MAX_MESSAGE_LENGTH = 500;
+const MAX_ARGS = 5;
+
+/**
+ * Get the stack of the console call, without this module's frames
+ */
+function getCallSiteStack(): string | undefined {
+    const stack = new Error().stack;
+    if (!stack) {
+        return undefined;
+    }
+    // Drop the header, this function, captureConsole and the console wrapper
+    const lines = stack.split('\n');
+    const start = lines[0].trim() === 'Error' ? 4 : 3;
+    return lines.slice(start).join('\n') || undefined;
+}
+
+function matchesRule(action: ConsoleAction, rule: ConsolePromoteRule): boolean {
+    if (rule.level !== undefined) {
+        const levels = Array.isArray(rule.level) ? rule.level : [rule.level];
+        if (!levels.includes(action.level)) {
+            return false;
+        }
+    }
+    if (rule.message !== undefined) {
+        return typeof rule.message === 'string'
+            ? action.message.includes(rule.message)
+            : rule.message.test(action.message);
+    }
+    return true;
+}
+
+/**
+ * Error reported for a promoted console message
+ */
+class ConsoleError extends Error {
+    constructor(message: string, callSite?: string) {
+        super(message);
+        this.name = 'ConsoleError';
+        this.stack = `ConsoleError: ${message}${callSite ? `\n${callSite}` : ''}`;
+    }
+}
+
+/**
+ * Create the error reported for a promoted console message
+ */
+export function createConsoleError(action: ConsoleAction): Error {
+    return new ConsoleError(action.message, action.stack);
 }
 
 /**
- * Create a console detector that captures error and warning logs
+ * Create a console detector that captures the configured log levels
  */
 export function createConsoleDetector(options: ConsoleDetectorOptions): DetectorCleanup {
-    const { onAction } = options;
+    const { onAction, onPromote, sanitizePatterns = [], trackConfig = {} } = options;
+    const {
+        levels = DEFAULT_LEVELS,
+        maxDepth = 3,
+        captureStack = false,
+        promote = []
+    } = trackConfig;
 
-    // Store original methods
-    const originalError = console.error.bind(console);
-    const originalWarn = console.warn.bind(console);
+    // Guards against handlers that log while a call is being captured
+    let isCapturing = false;
 
-    const captureConsole = (level: 'error' | 'warn', args: any[]) => {
-        // Convert arguments to strings
-        const message = args.map(arg => {
-            if (arg instanceof Error) {
-                return arg.message;
-            }
-            if (typeof arg === 'object') {
+    const captureConsole = (level: ConsoleLevel, args: unknown[]) => {
+        if (isCapturing) {
+            return;
+        }
+        isCapturing = true;
+
+        try {
+            // Serialization already bounds the depth; Map entries add two levels each
+            const serialized = sanitizeData(
+                args.map(arg => serializeValue(arg, { maxDepth })),
+                sanitizePatterns,
+                maxDepth * 2 + 2
+            );
+
+            // Convert arguments to a single line
+            const message = serialized.map((arg, index) => {
+                if (typeof arg === 'string') {
+                    return arg;
+                }
+                const original = args[index];
+                if (original instanceof Error) {
+                    return original.message;
+                }
                 try {
                     return JSON.stringify(arg);
                 } catch {
                     return String(arg);
                 }
+            }).join(' ');
+
+            const action: ConsoleAction = {
+                type: 'console',
+                level,
+                message: redactSensitiveData(level === 'assert' ? `Assertion failed: ${message}` : message)
+                    .slice(0, MAX_MESSAGE_LENGTH),
+                args: serialized.slice(0, MAX_ARGS),
+                ...getActionMetadata()
+            };
+
+            if (captureStack && STACK_LEVELS.includes(level)) {
+                const stack = getCallSiteStack();
+                if (stack) {
+                    action.stack = stack;
+                }
             }
-            return String(arg);
-        }).join(' ');
-
-        const action: ConsoleAction = {
-            type: 'console',
-            level,
-            message: message.slice(0, 500), // Limit message length
-            args: args.slice(0, 5).map(arg => {
-                if (typeof arg === 'string') return arg.slice(0, 100);
-                if (arg instanceof Error) return arg.message;
-                return typeof arg;
-            }),
-            ...getActionMetadata()
-        };
-
-        onAction(action);
-    };
 
-    // Override console.error
-    console.error = function (...args: any[]) {
-        captureConsole('error', args);
-        return originalError(...args);
-    };
+            onAction(action);
 
-    // Override console.warn
-    console.warn = function (...args: any[]) {
-        captureConsole('warn', args);
-        return originalWarn(...args);
+            if (onPromote && promote.some(rule => matchesRule(action, rule))) {
+                onPromote(action);
+            }
+        } finally {
+            isCapturing = false;
+        }
     };
 
+    const restores: (() => void)[] = [];
+
+    for (const level of levels) {
+        const original = console[level] as (...args: unknown[]) => void;
+        if (typeof original !== 'function') {
+            continue;
+        }
+
+        if (level === 'assert') {
+            // Only failed assertions are logged
+            console.assert = function (condition?: boolean, ...args: unknown[]) {
+                if (!condition) {
+                    captureConsole('assert', args);
+                }
+                return original.call(console, condition, ...args);
+            };
+        } else {
+            console[level] = function (...args: unknown[]) {
+                captureConsole(level, args);
+                return original.apply(console, args);
+            };
+        }
+
+        restores.push(() => {
+            console[level] = original;
+        });
+    }
+
     // Return cleanup function
     return () => {
-        console.error = originalError;
-        console.warn = originalWarn;
+        restores.forEach(restore => restore());
     };
 }
@@ -0,0 +1,223 @@
+/**
+ * DOM Recorder
+ *
+ * Records a full DOM snapshot on start, then MutationObserver deltas,
+ * scrolls, viewport resizes and form value changes, for visual replay.
+ */
+
+import {
+    ReplayAction,
+    ReplayEvent,
+    ReplayMutationEvent,
+    DetectorCleanup,
+    DomRecorderConfig
+} from '../types';
+import { getActionMetadata } from '../utils/action-metadata';
+import { addCapturedListener } from '../utils/event-helpers';
+import {
+    createNodeMirror,
+    serializeNode,
+    isBlocked,
+    isSensitiveControl,
+    getSafeAttribute,
+    getSafeText,
+    SerializeOptions
+} from '../replay/serializer';
+import { DEFAULT_BLOCK_ATTRIBUTE } from '../utils/dom-snapshot';
+
+export interface DomRecorderOptions extends DomRecorderConfig {
+    sanitizePatterns: string[];
+    onAction: (action: ReplayAction) => void;
+}
+
+export interface DomRecorder extends DetectorCleanup {
+    /** Take a full snapshot now, e.g. after the recorded events were cleared */
+    checkout(): void;
+}
+
+/**
+ * Create a DOM recorder that emits replay actions
+ */
+export function createDomRecorder(options: DomRecorderOptions): DomRecorder {
+    const {
+        sanitizePatterns,
+        onAction,
+        checkoutEvery = 20,
+        throttle = 100,
+        blockAttribute = DEFAULT_BLOCK_ATTRIBUTE
+    } = options;
+
+    const mirror = createNodeMirror();
+    const serializeOptions: SerializeOptions = { mirror, blockAttribute, sanitizePatterns };
+    let eventsSinceSnapshot = 0;
+
+    const emit = (event: ReplayEvent) => {
+        onAction({ type: 'replay', event, ...getActionMetadata() });
+
+        if (event.kind === 'snapshot') {
+            eventsSinceSnapshot = 0;
+        } else if (++eventsSinceSnapshot >= checkoutEvery) {
+            takeSnapshot();
+        }
+    };
+
+    const takeSnapshot = () => {
+        const node = serializeNode(document.documentElement, serializeOptions);
+        if (!node) return;
+
+        emit({
+            kind: 'snapshot',
+            node,
+            viewport: { width: window.innerWidth, height: window.innerHeight },
+            scroll: { x: window.scrollX, y: window.scrollY }
+        });
+    };
+
+    const handleMutations = (records: MutationRecord[]) => {
+        const event: ReplayMutationEvent = { kind: 'mutation', removes: [], adds: [], texts: [], attributes: [] };
+        const addedNodes = new Set<Node>();
+
+        for (const record of records) {
+            if (isBlocked(record.target, blockAttribute)) {
+                continue;
+            }
+
+            switch (record.type) {
+                case 'childList': {
+                    const parentId = mirror.getId(record.target);
+                    for (const node of Array.from(record.removedNodes)) {
+                        const id = mirror.getId(node);
+                        addedNodes.delete(node);
+                        if (id !== undefined && parentId !== undefined) {
+                            event.removes.push({ parentId, id });
+                        }
+                    }
+                    for (const node of Array.from(record.addedNodes)) {
+                        addedNodes.add(node);
+                    }
+                    break;
+                }
+                case 'characterData': {
+                    const id = mirror.getId(record.target);
+                    if (id !== undefined) {
+                        event.texts.push({ id, text: getSafeText(record.target.textContent ?? '') });
+                    }
+                    break;
+                }
+                case 'attributes': {
+                    const element = record.target as Element;
+                    const id = mirror.getId(element);
+                    const name = record.attributeName;
+                    if (id === undefined || !name) break;
+
+                    const raw = element.getAttribute(name);
+                    const value = raw === null ? null : getSafeAttribute(element, name, raw, sanitizePatterns);
+                    if (raw === null || value !== null) {
+                        event.attributes.push({ id, name, value });
+                    }
+                    break;
+                }
+            }
+        }
+
+        // Serialize only the top-most added nodes that are still in the document;
+        // their descendants are included in the serialization
+        const roots = Array.from(addedNodes).filter(node => {
+            if (!node.isConnected || isBlocked(node.parentNode ?? node, blockAttribute)) return false;
+            for (let parent = node.parentNode; parent; parent = parent.parentNode) {
+                if (addedNodes.has(parent)) return false;
+            }
+            return true;
+        });
+
+        // Insert in document order, each before its first sibling that already exists
+        roots.sort((a, b) => (a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1));
+        for (const node of roots) {
+            const parentId = node.parentNode ? mirror.getId(node.parentNode) : undefined;
+            if (parentId === undefined) continue;
+
+            let next = node.nextSibling;
+            while (next && (addedNodes.has(next) || mirror.getId(next) === undefined)) {
+                next = next.nextSibling;
+            }
+
+            const serialized = serializeNode(node, serializeOptions);
+            if (serialized) {
+                event.adds.push({ parentId, nextId: next ? mirror.getId(next)! : null, node: serialized });
+            }
+        }
+
+        if (event.removes.length || event.adds.length || event.texts.length || event.attributes.length) {
+            emit(event);
+        }
+    };
+
+    const observer = new MutationObserver(handleMutations);
+
+    // Scroll and resize are throttled per target
+    const lastEmitted = new Map<number | null, number>();
+    const isThrottled = (key: number | null) => {
+        const now = Date.now();
+        if (now - (lastEmitted.get(key) ?? 0) < throttle) return true;
+        lastEmitted.set(key, now);
+        return false;
+    };
+
+    const handleScroll = (event: Event) => {
+        const target = event.target;
+        if (target === document || target === document.documentElement || target === document.body) {
+            if (isThrottled(null)) return;
+            emit({ kind: 'scroll', id: null, x: window.scrollX, y: window.scrollY });
+            return;
+        }
+        if (!(target instanceof Element)) return;
+        const id = mirror.getId(target);
+        if (id === undefined || isThrottled(id)) return;
+        emit({ kind: 'scroll', id, x: target.scrollLeft, y: target.scrollTop });
+    };
+
+    const handleResize = () => {
+        if (isThrottled(-1)) return;
+        emit({ kind: 'viewport', width: window.innerWidth, height: window.innerHeight });
+    };
+
+    // Form values change without mutating attributes
+    const handleInput = (event: Event) => {
+        const target = event.target;
+        if (!(target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement)) {
+            return;
+        }
+        const id = mirror.getId(target);
+        if (id === undefined || isBlocked(target, blockAttribute)) return;
+
+        if (target instanceof HTMLInputElement && (target.type === 'checkbox' || target.type === 'radio')) {
+            emit({ kind: 'input', id, checked: target.checked });
+            return;
+        }
+
+        const sensitive = isSensitiveControl(target, sanitizePatterns);
+        emit({ kind: 'input', id, value: sensitive && target.value ? '[SANITIZED]' : getSafeText(target.value) });
+    };
+
+    takeSnapshot();
+    observer.observe(document.documentElement, {
+        childList: true,
+        subtree: true,
+        attributes: true,
+        characterData: true
+    });
+
+    const cleanupScroll = addCapturedListener(document, 'scroll', handleScroll);
+    const cleanupInput = addCapturedListener(document, 'input', handleInput);
+    const cleanupChange = addCapturedListener(document, 'change', handleInput);
+    window.addEventListener('resize', handleResize);
+
+    const cleanup = () => {
+        observer.disconnect();
+        cleanupScroll();
+        cleanupInput();
+        cleanupChange();
+        window.removeEventListener('resize', handleResize);
+    };
+    return Object.assign(cleanup, { checkout: takeSnapshot });
+}
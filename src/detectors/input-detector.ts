@@ -11,9 +11,13 @@ import { InputAction, DetectorCleanup, TrackInputsConfig } from '../types';
 import { createTextInputDetector } from './text-input-detector';
 import { createCheckboxDetector } from './checkbox-detector';
 import { createSelectDetector } from './select-detector';
+import { CaptureComponentsOption } from '../utils/component-resolver';
+import { ReactSnapshotOptions } from '../utils/react-detector';
 
 export interface InputDetectorOptions {
-    captureComponents: boolean;
+    captureComponents: CaptureComponentsOption;
+    /** Set when `captureComponentState` is enabled */
+    componentState?: ReactSnapshotOptions;
     sanitizePatterns: string[];
     onAction: (action: InputAction) => void;
     /** Which input types to track - defaults to all if not specified */
@@ -24,7 +28,7 @@ export interface InputDetectorOptions {
  * Create a combined input detector that tracks form input types
  */
 export function createInputDetector(options: InputDetectorOptions): DetectorCleanup {
-    const { captureComponents, sanitizePatterns, onAction, trackConfig } = options;
+    const { captureComponents, componentState, sanitizePatterns, onAction, trackConfig } = options;
 
     // Default to tracking all input types
     const track = {
@@ -39,6 +43,7 @@ export function createInputDetector(options: InputDetectorOptions): DetectorClea
     if (track.text) {
         cleanupFns.push(createTextInputDetector({
             captureComponents,
+            componentState,
             sanitizePatterns,
             onAction
         }));
@@ -47,6 +52,7 @@ export function createInputDetector(options: InputDetectorOptions): DetectorClea
     if (track.checkbox) {
         cleanupFns.push(createCheckboxDetector({
             captureComponents,
+            componentState,
             onAction
         }));
     }
@@ -54,6 +60,7 @@ export function createInputDetector(options: InputDetectorOptions): DetectorClea
     if (track.select) {
         cleanupFns.push(createSelectDetector({
             captureComponents,
+            componentState,
             onAction
         }));
     }
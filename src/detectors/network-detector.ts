@@ -4,32 +4,121 @@
  * Intercepts fetch and XMLHttpRequest to track API calls.
  */
 
-import { NetworkAction, DetectorCleanup } from '../types';
+import { NetworkAction, UserAction, DetectorCleanup, TrackNetworkConfig, GraphQLInfo, GraphQLErrorInfo } from '../types';
 import { getActionMetadata } from '../utils/action-metadata';
+import { sanitizeUrl } from '../utils/sanitizer';
+import {
+    BodyCaptureOptions,
+    getBodyCaptureOptions,
+    isBodyUrl,
+    isBodyContentType,
+    formatBody,
+    formatStructuredBody,
+    formatRequestBody,
+    readResponseText
+} from '../utils/network-body';
+import { pickHeaders, isSameOrigin, createCorrelation, getCorrelationId } from '../utils/network-headers';
+import {
+    GRAPHQL_RESPONSE_LIMIT,
+    parseGraphQLRequest,
+    parseGraphQLResponse,
+    getGraphQLErrors,
+    describeGraphQLErrors
+} from '../utils/graphql';
 
 export interface NetworkDetectorOptions {
-    onAction: (action: NetworkAction) => void;
+    /** Records an action and returns the stored copy, or null if it was dropped */
+    onAction: (action: NetworkAction) => UserAction | null;
+    /** Patterns from the `sanitize` option, also applied to body keys */
+    sanitizePatterns?: string[];
+    trackConfig?: TrackNetworkConfig;
 }
 
+/**
+ * Header and correlation fields recorded alongside a request
+ */
+type HeaderFields = Pick<NetworkAction, 'requestHeaders' | 'responseHeaders' | 'correlationId'>;
+
 /**
  * Create a network detector that tracks fetch and XHR requests
  */
 export function createNetworkDetector(options: NetworkDetectorOptions): DetectorCleanup {
-    const { onAction } = options;
+    const { onAction, sanitizePatterns = [], trackConfig = {} } = options;
+    const {
+        captureRequestBody = false,
+        captureResponseBody = false,
+        requestHeaders = [],
+        responseHeaders = [],
+        correlationHeader,
+        graphql = true
+    } = trackConfig;
+    const bodyOptions = getBodyCaptureOptions(trackConfig, sanitizePatterns);
+
+    const shouldCaptureBodies = (url: string) =>
+        (captureRequestBody || captureResponseBody) && isBodyUrl(url, bodyOptions);
 
     // Store original implementations
     const originalFetch = window.fetch.bind(window);
     const originalXHROpen = XMLHttpRequest.prototype.open;
     const originalXHRSend = XMLHttpRequest.prototype.send;
+    const originalXHRSetRequestHeader = XMLHttpRequest.prototype.setRequestHeader;
+
+    /**
+     * Get the correlation ID for a request, adding the header via `setHeader`
+     * for same-origin requests that don't already carry it
+     */
+    const correlate = (
+        url: string,
+        existing: string | null | undefined,
+        setHeader: (name: string, value: string) => void
+    ): string | undefined => {
+        if (!correlationHeader) {
+            return undefined;
+        }
+        if (existing !== null && existing !== undefined) {
+            return getCorrelationId(correlationHeader, existing);
+        }
+        if (!isSameOrigin(url)) {
+            return undefined;
+        }
+        const correlation = createCorrelation(correlationHeader);
+        setHeader(correlationHeader, correlation.headerValue);
+        return correlation.id;
+    };
 
     // Intercept fetch
     window.fetch = async function (input: RequestInfo | URL, init?: RequestInit) {
         const startTime = Date.now();
         const url = typeof input === 'string' ? input : input instanceof URL ? input.toString() : input.url;
         const method = init?.method || 'GET';
+        const captureBodies = shouldCaptureBodies(url);
+
+        // Read before the request consumes the body
+        const requestBody = captureBodies && captureRequestBody
+            ? getFetchRequestBody(input, init, bodyOptions)
+            : undefined;
+
+        // Headers are copied so the caller's init and Request stay untouched
+        const fields: HeaderFields = {};
+        let fetchInit = init;
+        if (correlationHeader || requestHeaders.length > 0) {
+            const request = typeof Request !== 'undefined' && input instanceof Request ? input : null;
+            const headers = new Headers(init?.headers ?? request?.headers);
+
+            const existing = correlationHeader ? headers.get(correlationHeader) : null;
+            fields.correlationId = correlate(url, existing, (name, value) => {
+                headers.set(name, value);
+                fetchInit = { ...init, headers };
+            });
+            fields.requestHeaders = pickHeaders(name => headers.get(name), requestHeaders);
+        }
+
+        const graphqlInfo = graphql
+            ? parseGraphQLRequest(url, method.toUpperCase(), typeof init?.body === 'string' ? init.body : undefined, bodyOptions.keyPatterns)
+            : undefined;
 
         try {
-            const response = await originalFetch(input, init);
+            const response = await originalFetch(input, fetchInit);
 
             const action: NetworkAction = {
                 type: 'network',
@@ -40,7 +129,30 @@ export function createNetworkDetector(options: NetworkDetectorOptions): Detector
                 ...getActionMetadata()
             };
 
-            onAction(action);
+            fields.responseHeaders = pickHeaders(name => response.headers.get(name), responseHeaders);
+            assignHeaderFields(action, fields);
+            if (graphqlInfo) {
+                action.graphql = graphqlInfo;
+            }
+
+            const contentType = response.headers.get('content-type');
+            const responseBody = captureBodies && captureResponseBody && isBodyContentType(contentType, bodyOptions)
+                ? readResponseText(response, bodyOptions.maxBodySize)
+                    .then(({ text, truncated }) => {
+                        action.responseBody = formatBody(text, contentType, bodyOptions, truncated);
+                    })
+                : undefined;
+
+            // GraphQL errors arrive with a 200 status, so the body is read for them
+            const graphqlErrors = graphqlInfo && contentType?.toLowerCase().includes('json')
+                ? readResponseText(response, GRAPHQL_RESPONSE_LIMIT).then(({ text, truncated }) => {
+                    if (!truncated) {
+                        assignGraphQLErrors(action, graphqlInfo, parseGraphQLResponse(text, graphqlInfo));
+                    }
+                })
+                : undefined;
+
+            emitAndFill(action, [requestBody?.then(body => assignRequestBody(action, body)), responseBody, graphqlErrors]);
             return response;
         } catch (error) {
             const action: NetworkAction = {
@@ -52,27 +164,92 @@ export function createNetworkDetector(options: NetworkDetectorOptions): Detector
                 ...getActionMetadata()
             };
 
-            onAction(action);
+            assignHeaderFields(action, fields);
+            if (graphqlInfo) {
+                action.graphql = graphqlInfo;
+            }
+            emitAndFill(action, [requestBody?.then(body => assignRequestBody(action, body))]);
             throw error;
         }
     };
 
+    /**
+     * Emit an action now, so it keeps its place in the timeline and the
+     * current report, then add the bodies and GraphQL errors to the stored
+     * action once they have been read.
+     */
+    const emitAndFill = (action: NetworkAction, tasks: (Promise<void> | undefined)[]) => {
+        const stored = onAction(action);
+        const pending = tasks.filter((task): task is Promise<void> => task !== undefined);
+        if (pending.length === 0 || !stored || stored.type !== 'network') {
+            return;
+        }
+
+        // A body that can't be read leaves the rest of the action as it is
+        Promise.all(pending.map(task => task.catch(() => undefined))).then(() => {
+            // beforeAction may have stored a copy
+            if (stored === action) return;
+            if (action.requestBody !== undefined) stored.requestBody = action.requestBody;
+            if (action.responseBody !== undefined) stored.responseBody = action.responseBody;
+            if (action.graphql !== undefined) stored.graphql = action.graphql;
+            if (action.graphql?.errors && stored.error === undefined) stored.error = action.error;
+        });
+    };
+
     // Intercept XMLHttpRequest
-    const xhrData = new WeakMap<XMLHttpRequest, { url: string; method: string; startTime: number }>();
+    const xhrData = new WeakMap<XMLHttpRequest, {
+        url: string;
+        method: string;
+        startTime: number;
+        /** Request headers set by the app, keyed by lowercase name */
+        headers: Record<string, string>;
+        requestBody?: unknown;
+        graphql?: GraphQLInfo;
+        fields: HeaderFields;
+    }>();
 
     XMLHttpRequest.prototype.open = function (method: string, url: string | URL, ...args: any[]) {
         xhrData.set(this, {
             url: typeof url === 'string' ? url : url.toString(),
             method: method.toUpperCase(),
-            startTime: 0
+            startTime: 0,
+            headers: {},
+            fields: {}
         });
         return originalXHROpen.apply(this, [method, url, ...args] as any);
     };
 
+    // Remember request headers for the allowlist and content type detection
+    XMLHttpRequest.prototype.setRequestHeader = function (name: string, value: string) {
+        const data = xhrData.get(this);
+        if (data) {
+            const key = name.toLowerCase();
+            // Repeated headers are combined, as XHR does
+            data.headers[key] = key in data.headers ? `${data.headers[key]}, ${value}` : value;
+        }
+        return originalXHRSetRequestHeader.apply(this, [name, value]);
+    };
+
     XMLHttpRequest.prototype.send = function (body?: Document | XMLHttpRequestBodyInit | null) {
         const data = xhrData.get(this);
         if (data) {
             data.startTime = Date.now();
+            if (captureRequestBody && shouldCaptureBodies(data.url)) {
+                data.requestBody = formatRequestBody(body, data.headers['content-type'] ?? null, bodyOptions);
+            }
+            if (graphql) {
+                data.graphql = parseGraphQLRequest(data.url, data.method, typeof body === 'string' ? body : undefined, bodyOptions.keyPatterns);
+            }
+
+            data.fields.correlationId = correlate(
+                data.url,
+                correlationHeader ? data.headers[correlationHeader.toLowerCase()] : undefined,
+                (name, value) => {
+                    originalXHRSetRequestHeader.call(this, name, value);
+                    data.headers[name.toLowerCase()] = value;
+                }
+            );
+            data.fields.requestHeaders = pickHeaders(name => data.headers[name], requestHeaders);
         }
 
         this.addEventListener('loadend', () => {
@@ -88,6 +265,25 @@ export function createNetworkDetector(options: NetworkDetectorOptions): Detector
                 ...getActionMetadata()
             };
 
+            if (data.requestBody !== undefined) {
+                action.requestBody = data.requestBody;
+            }
+            if (captureResponseBody && shouldCaptureBodies(data.url)) {
+                const responseBody = getXHRResponseBody(this, bodyOptions);
+                if (responseBody !== undefined) {
+                    action.responseBody = responseBody;
+                }
+            }
+
+            assignHeaderFields(action, {
+                ...data.fields,
+                responseHeaders: pickHeaders(name => this.getResponseHeader(name), responseHeaders)
+            });
+            if (data.graphql) {
+                action.graphql = data.graphql;
+                assignGraphQLErrors(action, data.graphql, getXHRGraphQLErrors(this, data.graphql));
+            }
+
             onAction(action);
         });
 
@@ -104,6 +300,14 @@ export function createNetworkDetector(options: NetworkDetectorOptions): Detector
                 ...getActionMetadata()
             };
 
+            if (data.requestBody !== undefined) {
+                action.requestBody = data.requestBody;
+            }
+            assignHeaderFields(action, data.fields);
+            if (data.graphql) {
+                action.graphql = data.graphql;
+            }
+
             onAction(action);
         });
 
@@ -115,32 +319,85 @@ export function createNetworkDetector(options: NetworkDetectorOptions): Detector
         window.fetch = originalFetch;
         XMLHttpRequest.prototype.open = originalXHROpen;
         XMLHttpRequest.prototype.send = originalXHRSend;
+        XMLHttpRequest.prototype.setRequestHeader = originalXHRSetRequestHeader;
     };
 }
 
+function assignRequestBody(action: NetworkAction, body: unknown): void {
+    if (body !== undefined) {
+        action.requestBody = body;
+    }
+}
+
 /**
- * Sanitize URL to remove sensitive query parameters
+ * Record GraphQL errors, marking the request as failed even with a 2xx status
  */
-function sanitizeUrl(url: string): string {
-    try {
-        const parsed = new URL(url, window.location.origin);
-
-        // List of sensitive parameter names to remove
-        const sensitiveParams = [
-            'token', 'api_key', 'apikey', 'key', 'secret',
-            'password', 'passwd', 'auth', 'authorization',
-            'access_token', 'refresh_token'
-        ];
-
-        for (const param of sensitiveParams) {
-            if (parsed.searchParams.has(param)) {
-                parsed.searchParams.set(param, '[REDACTED]');
-            }
-        }
+function assignGraphQLErrors(action: NetworkAction, info: GraphQLInfo, errors: GraphQLErrorInfo[]): void {
+    if (errors.length === 0) {
+        return;
+    }
+    action.graphql = { ...info, errors };
+    action.error = action.error ?? describeGraphQLErrors(errors);
+}
 
-        // Return path + sanitized query string
-        return parsed.pathname + parsed.search;
-    } catch {
-        return url;
+/**
+ * Get the GraphQL errors from a finished XHR
+ */
+function getXHRGraphQLErrors(xhr: XMLHttpRequest, info: GraphQLInfo): GraphQLErrorInfo[] {
+    if (!xhr.getResponseHeader('content-type')?.toLowerCase().includes('json')) {
+        return [];
+    }
+    if (xhr.responseType === '' || xhr.responseType === 'text') {
+        return parseGraphQLResponse(xhr.responseText, info);
+    }
+    if (xhr.responseType === 'json') {
+        return getGraphQLErrors(xhr.response, info);
+    }
+    return [];
+}
+
+/**
+ * Copy the recorded header fields onto an action, skipping empty ones
+ */
+function assignHeaderFields(action: NetworkAction, fields: HeaderFields): void {
+    if (fields.requestHeaders) action.requestHeaders = fields.requestHeaders;
+    if (fields.responseHeaders) action.responseHeaders = fields.responseHeaders;
+    if (fields.correlationId) action.correlationId = fields.correlationId;
+}
+
+/**
+ * Get the formatted body of a fetch request, from `init` or a Request object
+ */
+async function getFetchRequestBody(
+    input: RequestInfo | URL,
+    init: RequestInit | undefined,
+    options: BodyCaptureOptions
+): Promise<unknown> {
+    const request = typeof Request !== 'undefined' && input instanceof Request ? input : null;
+    const contentType = new Headers(init?.headers ?? request?.headers).get('content-type');
+
+    if (init?.body !== undefined) {
+        return formatRequestBody(init.body, contentType, options);
+    }
+    if (request && request.body && !request.bodyUsed && isBodyContentType(contentType, options)) {
+        return formatBody(await request.clone().text(), contentType, options);
+    }
+    return undefined;
+}
+
+/**
+ * Get the formatted response body of a finished XHR
+ */
+function getXHRResponseBody(xhr: XMLHttpRequest, options: BodyCaptureOptions): unknown {
+    const contentType = xhr.getResponseHeader('content-type');
+    if (!isBodyContentType(contentType, options)) {
+        return undefined;
+    }
+    if (xhr.responseType === '' || xhr.responseType === 'text') {
+        return xhr.responseText ? formatBody(xhr.responseText, contentType, options) : undefined;
+    }
+    if (xhr.responseType === 'json') {
+        return xhr.response !== null ? formatStructuredBody(xhr.response, options) : undefined;
     }
+    return undefined;
 }
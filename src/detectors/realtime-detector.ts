@@ -0,0 +1,270 @@
+/**
+ * Realtime Detector
+ *
+ * Wraps WebSocket and EventSource to track connections, reconnects,
+ * errors, closes and message traffic.
+ */
+
+import {
+    RealtimeAction,
+    RealtimeMessageStats,
+    RealtimeMessagePreview,
+    DetectorCleanup,
+    TrackRealtimeConfig
+} from '../types';
+import { getActionMetadata } from '../utils/action-metadata';
+import { sanitizeUrl, sanitizeData, redactSensitiveData } from '../utils/sanitizer';
+
+export interface RealtimeDetectorOptions {
+    onAction: (action: RealtimeAction) => void;
+    /** Patterns from the `sanitize` option, also applied to preview keys */
+    sanitizePatterns?: string[];
+    trackConfig?: TrackRealtimeConfig;
+}
+
+interface Connection {
+    transport: RealtimeAction['transport'];
+    url: string;
+    createdAt: number;
+    openedAt: number | null;
+    sent: RealtimeMessageStats;
+    received: RealtimeMessageStats;
+    previews: RealtimeMessagePreview[];
+}
+
+/**
+ * Get the size of a message in bytes
+ */
+function getMessageSize(data: unknown): number {
+    if (typeof data === 'string') {
+        return typeof TextEncoder !== 'undefined' ? new TextEncoder().encode(data).length : data.length;
+    }
+    if (data instanceof ArrayBuffer) {
+        return data.byteLength;
+    }
+    if (ArrayBuffer.isView(data)) {
+        return data.byteLength;
+    }
+    if (typeof Blob !== 'undefined' && data instanceof Blob) {
+        return data.size;
+    }
+    return 0;
+}
+
+/**
+ * Create a detector that tracks WebSocket and EventSource connections
+ */
+export interface RealtimeDetector extends DetectorCleanup {
+    /** Emit message summaries for all connections now, e.g. before a report is created */
+    flush(): void;
+}
+
+export function createRealtimeDetector(options: RealtimeDetectorOptions): RealtimeDetector {
+    const { onAction, sanitizePatterns = [], trackConfig = {} } = options;
+    const {
+        webSocket = true,
+        eventSource = true,
+        messagePreviews = 0,
+        maxPreviewLength = 200,
+        summaryInterval = 5000
+    } = trackConfig;
+
+    const connections = new Set<Connection>();
+    // Connections per URL that have ended, to tell reconnects from first connects
+    const endedUrls = new Map<string, number>();
+    let isActive = true;
+
+    const emit = (connection: Connection, event: RealtimeAction['event'], fields: Partial<RealtimeAction> = {}) => {
+        if (!isActive) return;
+        onAction({
+            type: 'realtime',
+            transport: connection.transport,
+            event,
+            url: connection.url,
+            ...fields,
+            ...getActionMetadata()
+        });
+    };
+
+    const getPreview = (data: unknown): string => {
+        if (typeof data !== 'string') {
+            return `[binary ${getMessageSize(data)} bytes]`;
+        }
+        let text = data;
+        try {
+            text = JSON.stringify(sanitizeData(JSON.parse(data), sanitizePatterns, 10));
+        } catch {
+            text = redactSensitiveData(data);
+        }
+        return text.length > maxPreviewLength ? `${text.slice(0, maxPreviewLength)}…` : text;
+    };
+
+    const recordMessage = (connection: Connection, direction: RealtimeMessagePreview['direction'], data: unknown) => {
+        const size = getMessageSize(data);
+        const stats = direction === 'sent' ? connection.sent : connection.received;
+        stats.count++;
+        stats.bytes += size;
+
+        if (messagePreviews > 0) {
+            connection.previews.push({ direction, data: getPreview(data), size, timestamp: Date.now() });
+            if (connection.previews.length > messagePreviews) {
+                connection.previews.shift();
+            }
+        }
+    };
+
+    /**
+     * Emit the traffic since the last summary, if there was any
+     */
+    const flushMessages = (connection: Connection) => {
+        const { sent, received, previews } = connection;
+        if (sent.count === 0 && received.count === 0) {
+            return;
+        }
+
+        const fields: Partial<RealtimeAction> = {};
+        if (sent.count > 0) fields.sent = { ...sent };
+        if (received.count > 0) fields.received = { ...received };
+        if (previews.length > 0) fields.previews = [...previews];
+        emit(connection, 'messages', fields);
+
+        connection.sent = { count: 0, bytes: 0 };
+        connection.received = { count: 0, bytes: 0 };
+        connection.previews = [];
+    };
+
+    const track = (transport: Connection['transport'], rawUrl: string | URL): Connection => {
+        const connection: Connection = {
+            transport,
+            url: sanitizeUrl(rawUrl.toString()),
+            createdAt: Date.now(),
+            openedAt: null,
+            sent: { count: 0, bytes: 0 },
+            received: { count: 0, bytes: 0 },
+            previews: []
+        };
+        connections.add(connection);
+        return connection;
+    };
+
+    const handleOpen = (connection: Connection) => {
+        const attempt = endedUrls.get(connection.url);
+        connection.openedAt = Date.now();
+        emit(connection, attempt ? 'reconnect' : 'connect', {
+            duration: connection.openedAt - connection.createdAt,
+            ...(attempt ? { attempt } : {})
+        });
+    };
+
+    const handleEnd = (connection: Connection, event: 'error' | 'close', fields: Partial<RealtimeAction> = {}) => {
+        flushMessages(connection);
+        emit(connection, event, {
+            ...fields,
+            ...(event === 'close' && connection.openedAt !== null ? { duration: Date.now() - connection.openedAt } : {})
+        });
+    };
+
+    // The next connection to this URL counts as a reconnect
+    const markEnded = (connection: Connection) => {
+        endedUrls.set(connection.url, (endedUrls.get(connection.url) ?? 0) + 1);
+    };
+
+    const cleanups: (() => void)[] = [];
+
+    if (webSocket && typeof window.WebSocket === 'function') {
+        const OriginalWebSocket = window.WebSocket;
+        const trackedSockets = new WeakMap<WebSocket, Connection>();
+
+        window.WebSocket = class WebSocket extends OriginalWebSocket {
+            constructor(url: string | URL, protocols?: string | string[]) {
+                super(url, protocols);
+                const connection = track('websocket', url);
+                trackedSockets.set(this, connection);
+
+                this.addEventListener('open', () => handleOpen(connection));
+                this.addEventListener('message', event => recordMessage(connection, 'received', event.data));
+                this.addEventListener('error', () => handleEnd(connection, 'error'));
+                this.addEventListener('close', event => {
+                    handleEnd(connection, 'close', { code: event.code, reason: event.reason, wasClean: event.wasClean });
+                    markEnded(connection);
+                    connections.delete(connection);
+                });
+            }
+
+            send(data: string | ArrayBufferLike | Blob | ArrayBufferView) {
+                const connection = trackedSockets.get(this);
+                if (connection && this.readyState === OriginalWebSocket.OPEN) {
+                    recordMessage(connection, 'sent', data);
+                }
+                super.send(data);
+            }
+        };
+
+        cleanups.push(() => {
+            window.WebSocket = OriginalWebSocket;
+        });
+    }
+
+    if (eventSource && typeof window.EventSource === 'function') {
+        const OriginalEventSource = window.EventSource;
+        const trackedSources = new WeakMap<EventSource, Connection>();
+
+        const closeSource = (source: EventSource) => {
+            const connection = trackedSources.get(source);
+            if (!connection) return;
+            trackedSources.delete(source);
+            handleEnd(connection, 'close');
+            markEnded(connection);
+            connections.delete(connection);
+        };
+
+        window.EventSource = class EventSource extends OriginalEventSource {
+            constructor(url: string | URL, init?: EventSourceInit) {
+                super(url, init);
+                const connection = track('eventsource', url);
+                trackedSources.set(this, connection);
+
+                this.addEventListener('open', () => handleOpen(connection));
+                this.addEventListener('message', event => recordMessage(connection, 'received', event.data));
+                this.addEventListener('error', () => {
+                    if (this.readyState === OriginalEventSource.CLOSED) {
+                        closeSource(this);
+                    } else {
+                        // The browser reconnects by itself
+                        handleEnd(connection, 'error');
+                        markEnded(connection);
+                    }
+                });
+            }
+
+            close() {
+                super.close();
+                // Closing from script fires no event
+                closeSource(this);
+            }
+        };
+
+        cleanups.push(() => {
+            window.EventSource = OriginalEventSource;
+        });
+    }
+
+    const flush = () => {
+        for (const connection of connections) {
+            flushMessages(connection);
+        }
+    };
+
+    // Summarise busy connections periodically so long-lived sockets show up
+    const summaryTimer = setInterval(flush, summaryInterval);
+
+    const stop = () => {
+        clearInterval(summaryTimer);
+        for (const cleanup of cleanups) {
+            cleanup();
+        }
+        isActive = false;
+        connections.clear();
+    };
+    return Object.assign(stop, { flush });
+}
@@ -0,0 +1,132 @@
+/**
+ * Resource Detector
+ *
+ * Wraps navigator.sendBeacon and listens for load failures of scripts,
+ * stylesheets, images and iframes, which never reach the window error
+ * handler as useful errors.
+ */
+
+import { BeaconAction, ResourceAction, DetectorCleanup, TrackResourcesConfig } from '../types';
+import { getActionMetadata } from '../utils/action-metadata';
+import { addCapturedListener } from '../utils/event-helpers';
+import { getElementIdentifier } from '../utils/element-identifier';
+import { sanitizeUrl } from '../utils/sanitizer';
+
+export interface ResourceDetectorOptions {
+    onAction: (action: BeaconAction | ResourceAction) => void;
+    trackConfig?: TrackResourcesConfig;
+}
+
+const RESOURCE_TAGS: ResourceAction['tag'][] = ['script', 'link', 'img', 'iframe'];
+
+// Bundler chunk file names, e.g. 123.4f5e6a.js, vendors~main.chunk.js, Page-3b2c1d.js
+const CHUNK_PATTERN = /(\.chunk\.js|[.-][0-9a-f]{6,}\.m?js)(\?|$)/i;
+
+/**
+ * Check if an event target is an element whose load failures are recorded
+ */
+export function isResourceElement(target: EventTarget | null): target is Element {
+    return target instanceof Element && (RESOURCE_TAGS as string[]).includes(target.localName);
+}
+
+/**
+ * Get the size of a beacon payload in bytes, if it can be determined
+ */
+function getPayloadSize(data: BodyInit | null | undefined): number | undefined {
+    if (data === null || data === undefined) {
+        return 0;
+    }
+    if (typeof data === 'string') {
+        return new Blob([data]).size;
+    }
+    if (data instanceof Blob) {
+        return data.size;
+    }
+    if (data instanceof ArrayBuffer || ArrayBuffer.isView(data)) {
+        return data.byteLength;
+    }
+    if (data instanceof URLSearchParams) {
+        return new Blob([data.toString()]).size;
+    }
+    return undefined;
+}
+
+function getResourceUrl(element: Element): string {
+    if (element instanceof HTMLScriptElement || element instanceof HTMLImageElement || element instanceof HTMLIFrameElement) {
+        return element.src;
+    }
+    if (element instanceof HTMLLinkElement) {
+        return element.href;
+    }
+    return '';
+}
+
+/**
+ * Create a resource detector that tracks beacons and resource load failures
+ */
+export function createResourceDetector(options: ResourceDetectorOptions): DetectorCleanup {
+    const { onAction, trackConfig = {} } = options;
+    const { beacons = true, loadErrors = true } = trackConfig;
+    const cleanups: DetectorCleanup[] = [];
+
+    if (beacons && typeof navigator !== 'undefined' && typeof navigator.sendBeacon === 'function') {
+        const originalSendBeacon = navigator.sendBeacon;
+
+        navigator.sendBeacon = function (url: string | URL, data?: BodyInit | null) {
+            const queued = originalSendBeacon.call(navigator, url, data);
+
+            const action: BeaconAction = {
+                type: 'beacon',
+                url: sanitizeUrl(url.toString()),
+                queued,
+                ...getActionMetadata()
+            };
+            const size = getPayloadSize(data);
+            if (size !== undefined) {
+                action.size = size;
+            }
+
+            onAction(action);
+            return queued;
+        };
+
+        cleanups.push(() => {
+            navigator.sendBeacon = originalSendBeacon;
+        });
+    }
+
+    if (loadErrors) {
+        // Resource errors don't bubble, so they are only seen while capturing
+        const handleError = (event: Event) => {
+            const target = event.target;
+            if (!isResourceElement(target)) {
+                return;
+            }
+
+            const url = getResourceUrl(target);
+            // A link that isn't loading anything (e.g. rel="icon" without href)
+            if (!url) {
+                return;
+            }
+
+            const action: ResourceAction = {
+                type: 'resource',
+                tag: target.localName as ResourceAction['tag'],
+                url: sanitizeUrl(url),
+                element: getElementIdentifier(target, false).identifier,
+                ...getActionMetadata()
+            };
+            if (target.localName === 'script' && CHUNK_PATTERN.test(url)) {
+                action.isChunk = true;
+            }
+
+            onAction(action);
+        };
+
+        cleanups.push(addCapturedListener(window, 'error', handleError));
+    }
+
+    return () => {
+        cleanups.forEach(cleanup => cleanup());
+    };
+}
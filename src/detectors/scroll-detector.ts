@@ -0,0 +1,151 @@
+/**
+ * Scroll Detector
+ *
+ * Records where the window and scrollable elements come to rest after
+ * scrolling, and viewport resizes and rotations. Events are debounced so
+ * continuous scrolling or resizing produces one action.
+ */
+
+import { ScrollAction, ViewportAction, DetectorCleanup, TrackScrollConfig } from '../types';
+import { getActionMetadata } from '../utils/action-metadata';
+import { addCapturedListener, addCapturedListeners } from '../utils/event-helpers';
+import { getElementIdentifier } from '../utils/element-identifier';
+
+export interface ScrollDetectorOptions {
+    onAction: (action: ScrollAction | ViewportAction) => void;
+    trackConfig?: TrackScrollConfig;
+}
+
+interface Position {
+    x: number;
+    y: number;
+}
+
+/**
+ * Get the scroll position of the window or an element
+ */
+function getPosition(target: Element | null): Position & { percent: number } {
+    const scroller = target ?? document.scrollingElement ?? document.documentElement;
+    const x = Math.round(target ? target.scrollLeft : window.scrollX);
+    const y = Math.round(target ? target.scrollTop : window.scrollY);
+    const scrollable = scroller.scrollHeight - scroller.clientHeight;
+
+    return {
+        x,
+        y,
+        percent: scrollable > 0 ? Math.min(100, Math.round((y / scrollable) * 100)) : 0
+    };
+}
+
+function getOrientation(): string | undefined {
+    return typeof screen !== 'undefined' ? screen.orientation?.type : undefined;
+}
+
+/**
+ * Create a detector that tracks settled scroll positions and viewport changes
+ */
+export function createScrollDetector(options: ScrollDetectorOptions): DetectorCleanup {
+    const { onAction, trackConfig = {} } = options;
+    const {
+        scroll = true,
+        viewport = true,
+        settleDelay = 250,
+        minDistance = 100,
+        resizeDelay = 250,
+        minResize = 10
+    } = trackConfig;
+
+    const cleanups: DetectorCleanup[] = [];
+
+    if (scroll) {
+        // One pending timer per scrolling target; the window is keyed by document
+        const timers = new Map<EventTarget, ReturnType<typeof setTimeout>>();
+        const lastPositions = new WeakMap<EventTarget, Position>();
+        lastPositions.set(document, { x: Math.round(window.scrollX), y: Math.round(window.scrollY) });
+
+        const recordScroll = (target: EventTarget) => {
+            timers.delete(target);
+            const element = target instanceof Element ? target : null;
+            const position = getPosition(element);
+
+            const last = lastPositions.get(target) ?? { x: 0, y: 0 };
+            if (Math.abs(position.x - last.x) < minDistance && Math.abs(position.y - last.y) < minDistance) {
+                return;
+            }
+            lastPositions.set(target, { x: position.x, y: position.y });
+
+            const action: ScrollAction = {
+                type: 'scroll',
+                ...position,
+                ...getActionMetadata()
+            };
+            if (element) {
+                action.element = getElementIdentifier(element, false).identifier;
+            }
+            onAction(action);
+        };
+
+        // Scroll events don't bubble, but element scrolls are seen while capturing
+        const handleScroll = (event: Event) => {
+            const target = event.target instanceof Element && event.target !== document.scrollingElement
+                ? event.target
+                : document;
+
+            clearTimeout(timers.get(target));
+            timers.set(target, setTimeout(() => recordScroll(target), settleDelay));
+        };
+
+        cleanups.push(addCapturedListener(document, 'scroll', handleScroll));
+        cleanups.push(() => {
+            timers.forEach(timer => clearTimeout(timer));
+            timers.clear();
+        });
+    }
+
+    if (viewport) {
+        let lastSize = { width: window.innerWidth, height: window.innerHeight };
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        let rotated = false;
+
+        const recordViewport = () => {
+            timer = undefined;
+            const width = window.innerWidth;
+            const height = window.innerHeight;
+            const changed = Math.abs(width - lastSize.width) >= minResize ||
+                Math.abs(height - lastSize.height) >= minResize;
+
+            if (changed || rotated) {
+                const action: ViewportAction = {
+                    type: 'viewport',
+                    event: rotated ? 'orientationchange' : 'resize',
+                    width,
+                    height,
+                    ...getActionMetadata()
+                };
+                const orientation = getOrientation();
+                if (orientation) {
+                    action.orientation = orientation;
+                }
+                onAction(action);
+                lastSize = { width, height };
+            }
+            rotated = false;
+        };
+
+        // The size isn't final when orientationchange fires, so both wait for resizes to stop
+        const handleViewport = (event: Event) => {
+            if (event.type === 'orientationchange') {
+                rotated = true;
+            }
+            clearTimeout(timer);
+            timer = setTimeout(recordViewport, resizeDelay);
+        };
+
+        cleanups.push(addCapturedListeners(window, ['resize', 'orientationchange'], handleViewport));
+        cleanups.push(() => clearTimeout(timer));
+    }
+
+    return () => {
+        cleanups.forEach(cleanup => cleanup());
+    };
+}
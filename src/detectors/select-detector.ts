@@ -6,11 +6,15 @@
 
 import { InputAction, DetectorCleanup } from '../types';
 import { getElementIdentifier } from '../utils/element-identifier';
+import { CaptureComponentsOption } from '../utils/component-resolver';
+import { ReactSnapshotOptions } from '../utils/react-detector';
 import { getActionMetadata } from '../utils/action-metadata';
 import { addCapturedListener } from '../utils/event-helpers';
 
 export interface SelectDetectorOptions {
-    captureComponents: boolean;
+    captureComponents: CaptureComponentsOption;
+    /** Set when `captureComponentState` is enabled */
+    componentState?: ReactSnapshotOptions;
     onAction: (action: InputAction) => void;
 }
 
@@ -18,7 +22,7 @@ export interface SelectDetectorOptions {
  * Create a select detector that tracks dropdown selection changes
  */
 export function createSelectDetector(options: SelectDetectorOptions): DetectorCleanup {
-    const { captureComponents, onAction } = options;
+    const { captureComponents, componentState, onAction } = options;
 
     const handleChange = (event: Event) => {
         const target = event.target;
@@ -29,7 +33,7 @@ export function createSelectDetector(options: SelectDetectorOptions): DetectorCl
         }
 
         // Get element info
-        const elementInfo = getElementIdentifier(target, captureComponents);
+        const elementInfo = getElementIdentifier(target, captureComponents, componentState);
 
         // Get selected option text
         const selectedText = target.options[target.selectedIndex]?.text || target.value;
@@ -38,6 +42,7 @@ export function createSelectDetector(options: SelectDetectorOptions): DetectorCl
             type: 'input',
             element: elementInfo.identifier,
             component: elementInfo.component,
+            componentSnapshot: elementInfo.componentSnapshot,
             inputType: 'change',
             value: selectedText,
             valueLength: selectedText.length,
@@ -7,12 +7,16 @@
 
 import { InputAction, DetectorCleanup } from '../types';
 import { getElementIdentifier } from '../utils/element-identifier';
+import { CaptureComponentsOption } from '../utils/component-resolver';
+import { ReactSnapshotOptions } from '../utils/react-detector';
 import { getSafeInputValue } from '../utils/sanitizer';
 import { getActionMetadata } from '../utils/action-metadata';
 import { addCapturedListener } from '../utils/event-helpers';
 
 export interface TextInputDetectorOptions {
-    captureComponents: boolean;
+    captureComponents: CaptureComponentsOption;
+    /** Set when `captureComponentState` is enabled */
+    componentState?: ReactSnapshotOptions;
     sanitizePatterns: string[];
     onAction: (action: InputAction) => void;
 }
@@ -21,7 +25,7 @@ export interface TextInputDetectorOptions {
  * Create a text input detector that tracks text inputs and textareas
  */
 export function createTextInputDetector(options: TextInputDetectorOptions): DetectorCleanup {
-    const { captureComponents, sanitizePatterns, onAction } = options;
+    const { captureComponents, componentState, sanitizePatterns, onAction } = options;
 
     // Track previous values to detect clearing
     const previousValues = new WeakMap<Element, string>();
@@ -43,7 +47,7 @@ export function createTextInputDetector(options: TextInputDetectorOptions): Dete
         }
 
         // Get element info
-        const elementInfo = getElementIdentifier(target, captureComponents);
+        const elementInfo = getElementIdentifier(target, captureComponents, componentState);
 
         // Get safe value with sanitization
         const { value, isSanitized } = getSafeInputValue(target, sanitizePatterns);
@@ -57,6 +61,8 @@ export function createTextInputDetector(options: TextInputDetectorOptions): Dete
             type: 'input',
             element: elementInfo.identifier,
             component: elementInfo.component,
+            // A masked value could still be read from the component's props or state
+            componentSnapshot: isSanitized ? undefined : elementInfo.componentSnapshot,
             inputType,
             value,
             valueLength: target.value.length,
@@ -0,0 +1,116 @@
+/**
+ * Discord Formatter
+ *
+ * Turns an ErrorReport into a Discord webhook payload with a single embed.
+ */
+
+import { ErrorReport } from '../types';
+import {
+    FormatterOptions,
+    DEFAULT_MAX_ACTIONS,
+    DEFAULT_MAX_STACK_LINES,
+    truncate,
+    escapeCodeFence,
+    getErrorTitle,
+    getShortStack,
+    getRecentActions,
+    getTimelineActions,
+    getContextEntries,
+    formatActionLines,
+    joinLinesWithin
+} from './shared';
+
+export interface DiscordEmbedField {
+    name: string;
+    value: string;
+    inline?: boolean;
+}
+
+export interface DiscordEmbed {
+    title: string;
+    description: string;
+    color: number;
+    fields: DiscordEmbedField[];
+    footer: { text: string };
+    timestamp: string;
+}
+
+export interface DiscordMessage {
+    embeds: DiscordEmbed[];
+}
+
+// Embed limits
+const TITLE_MAX = 256;
+const DESCRIPTION_MAX = 4096;
+const FIELD_NAME_MAX = 256;
+const FIELD_VALUE_MAX = 1024;
+const FOOTER_MAX = 2048;
+const EMBED_TOTAL_MAX = 6000;
+
+const ERROR_COLOR = 0xe74c3c;
+
+/**
+ * Count the characters Discord includes in the 6000 character embed limit
+ */
+function getEmbedLength(embed: DiscordEmbed): number {
+    return embed.title.length
+        + embed.description.length
+        + embed.footer.text.length
+        + embed.fields.reduce((sum, field) => sum + field.name.length + field.value.length, 0);
+}
+
+/**
+ * Format an error report as a Discord webhook message
+ */
+export function formatDiscordMessage(report: ErrorReport, options: FormatterOptions = {}): DiscordMessage {
+    const {
+        maxActions = DEFAULT_MAX_ACTIONS,
+        maxStackLines = DEFAULT_MAX_STACK_LINES,
+        title
+    } = options;
+
+    // Description holds the message and stack
+    const stack = getShortStack(report.error, maxStackLines);
+    let description = report.error.message;
+    if (stack) {
+        const message = truncate(report.error.message, 1000);
+        const stackBlock = truncate(escapeCodeFence(stack), DESCRIPTION_MAX - message.length - 10);
+        description = `${message}\n\`\`\`\n${stackBlock}\n\`\`\``;
+    }
+
+    const fields: DiscordEmbedField[] = getContextEntries(report).map(([label, value]) => ({
+        name: label,
+        value: truncate(value, FIELD_VALUE_MAX),
+        inline: label !== 'URL' && label !== 'User Agent'
+    }));
+
+    const actions = getRecentActions(report, maxActions);
+    const actionsField: DiscordEmbedField | null = actions.length > 0
+        ? {
+            name: truncate(`Recent actions (${actions.length} of ${getTimelineActions(report).length})`, FIELD_NAME_MAX),
+            value: '```\n'
+                + joinLinesWithin(formatActionLines(actions, 120).map(escapeCodeFence), FIELD_VALUE_MAX - 8)
+                + '\n```'
+        }
+        : null;
+    if (actionsField) {
+        fields.push(actionsField);
+    }
+
+    const embed: DiscordEmbed = {
+        title: truncate(getErrorTitle(report, title), TITLE_MAX),
+        description: truncate(description, DESCRIPTION_MAX),
+        color: ERROR_COLOR,
+        fields,
+        footer: { text: truncate(`Report ${report.reportId}`, FOOTER_MAX) },
+        timestamp: report.timestamp
+    };
+
+    // Stay under the combined embed limit by shortening the description
+    const overflow = getEmbedLength(embed) - EMBED_TOTAL_MAX;
+    if (overflow > 0) {
+        embed.description = truncate(report.error.message, Math.max(0, embed.description.length - overflow));
+    }
+
+    return { embeds: [embed] };
+}
@@ -0,0 +1,90 @@
+/**
+ * GitHub Formatter
+ *
+ * Turns an ErrorReport into a GitHub issue title and markdown body.
+ */
+
+import { ErrorReport } from '../types';
+import {
+    FormatterOptions,
+    DEFAULT_MAX_ACTIONS,
+    DEFAULT_MAX_STACK_LINES,
+    truncate,
+    escapeCodeFence,
+    getErrorTitle,
+    getShortStack,
+    getRecentActions,
+    getTimelineActions,
+    getContextEntries,
+    describeAction
+} from './shared';
+
+export interface GitHubIssue {
+    title: string;
+    body: string;
+}
+
+// GitHub issue limits
+const TITLE_MAX = 256;
+const BODY_MAX = 65536;
+
+const TRUNCATED_NOTICE = '\n\n_Report truncated to fit the GitHub issue size limit._';
+
+/**
+ * Escape text for use inside a markdown table cell
+ */
+function escapeCell(text: string): string {
+    return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+/**
+ * Format an error report as a GitHub issue
+ */
+export function formatGitHubIssue(report: ErrorReport, options: FormatterOptions = {}): GitHubIssue {
+    const {
+        maxActions = DEFAULT_MAX_ACTIONS,
+        maxStackLines = DEFAULT_MAX_STACK_LINES,
+        title
+    } = options;
+
+    const lines: string[] = [
+        '## Error',
+        '',
+        `**${report.error.type}**: ${truncate(report.error.message, 2000)}`,
+        ''
+    ];
+
+    const stack = getShortStack(report.error, maxStackLines);
+    if (stack) {
+        lines.push('<details>', '<summary>Stack trace</summary>', '', '```', escapeCodeFence(stack), '```', '', '</details>', '');
+    }
+
+    lines.push('## Context', '', '| | |', '|---|---|');
+    for (const [label, value] of getContextEntries(report)) {
+        lines.push(`| **${label}** | ${escapeCell(truncate(value, 500))} |`);
+    }
+    lines.push('');
+
+    const actions = getRecentActions(report, maxActions);
+    if (actions.length > 0) {
+        lines.push(`## Recent actions (${actions.length} of ${getTimelineActions(report).length})`, '');
+        lines.push('| Time | Type | Details |', '|---:|---|---|');
+        for (const action of actions) {
+            const details = escapeCell(truncate(describeAction(action), 300));
+            lines.push(`| ${action.relativeTime} | ${action.type} | \`${details.replace(/`/g, "'")}\` |`);
+        }
+        lines.push('');
+    }
+
+    lines.push(`<sub>Report \`${report.reportId}\` · ${report.timestamp}</sub>`);
+
+    let body = lines.join('\n');
+    if (body.length > BODY_MAX) {
+        body = body.slice(0, BODY_MAX - TRUNCATED_NOTICE.length) + TRUNCATED_NOTICE;
+    }
+
+    return {
+        title: truncate(getErrorTitle(report, title).replace(/\s+/g, ' '), TITLE_MAX),
+        body
+    };
+}
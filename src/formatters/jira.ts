@@ -0,0 +1,119 @@
+/**
+ * Jira Formatter
+ *
+ * Turns an ErrorReport into Jira issue fields with an Atlassian Document
+ * Format (ADF) description, as used by the Jira Cloud REST API v3.
+ */
+
+import { ErrorReport } from '../types';
+import {
+    FormatterOptions,
+    DEFAULT_MAX_ACTIONS,
+    DEFAULT_MAX_STACK_LINES,
+    truncate,
+    getErrorTitle,
+    getShortStack,
+    getRecentActions,
+    getTimelineActions,
+    getContextEntries,
+    formatActionLines,
+    joinLinesWithin
+} from './shared';
+
+export interface AdfNode {
+    type: string;
+    attrs?: Record<string, unknown>;
+    content?: AdfNode[];
+    text?: string;
+    marks?: { type: string }[];
+}
+
+export interface AdfDocument {
+    version: 1;
+    type: 'doc';
+    content: AdfNode[];
+}
+
+export interface JiraIssueFields {
+    summary: string;
+    description: AdfDocument;
+}
+
+// Jira field limits
+const SUMMARY_MAX = 255;
+const DESCRIPTION_MAX = 32767;
+// Budget for the two code blocks, leaving room for headings and context
+const STACK_MAX = 8000;
+const ACTIONS_MAX = 16000;
+
+const heading = (text: string): AdfNode => ({
+    type: 'heading',
+    attrs: { level: 3 },
+    content: [{ type: 'text', text }]
+});
+
+const paragraph = (...content: AdfNode[]): AdfNode => ({ type: 'paragraph', content });
+
+const text = (value: string, mark?: string): AdfNode => {
+    const node: AdfNode = { type: 'text', text: value };
+    if (mark) {
+        node.marks = [{ type: mark }];
+    }
+    return node;
+};
+
+const codeBlock = (value: string): AdfNode => ({
+    type: 'codeBlock',
+    attrs: {},
+    content: [{ type: 'text', text: value }]
+});
+
+/**
+ * Format an error report as Jira issue fields (summary and ADF description)
+ */
+export function formatJiraIssue(report: ErrorReport, options: FormatterOptions = {}): JiraIssueFields {
+    const {
+        maxActions = DEFAULT_MAX_ACTIONS,
+        maxStackLines = DEFAULT_MAX_STACK_LINES,
+        title
+    } = options;
+
+    const content: AdfNode[] = [
+        heading('Error'),
+        paragraph(text(report.error.type, 'strong'), text(': '), text(truncate(report.error.message, 2000), 'code'))
+    ];
+
+    const stack = getShortStack(report.error, maxStackLines);
+    if (stack) {
+        content.push(codeBlock(truncate(stack, STACK_MAX)));
+    }
+
+    content.push(heading('Context'));
+    content.push({
+        type: 'bulletList',
+        content: getContextEntries(report).map(([label, value]) => ({
+            type: 'listItem',
+            content: [paragraph(text(`${label}: `, 'strong'), text(truncate(value, 500)))]
+        }))
+    });
+
+    const actions = getRecentActions(report, maxActions);
+    if (actions.length > 0) {
+        content.push(heading(`Recent actions (${actions.length} of ${getTimelineActions(report).length})`));
+        content.push(codeBlock(joinLinesWithin(formatActionLines(actions, 300), ACTIONS_MAX)));
+    }
+
+    content.push(paragraph(text(`Report ${report.reportId} · ${report.timestamp}`, 'em')));
+
+    const description: AdfDocument = { version: 1, type: 'doc', content };
+
+    // The budgets above keep us within the limit; drop the actions as a last resort
+    if (JSON.stringify(description).length > DESCRIPTION_MAX && actions.length > 0) {
+        content.splice(content.length - 3, 2);
+    }
+
+    return {
+        summary: truncate(getErrorTitle(report, title).replace(/\s+/g, ' '), SUMMARY_MAX),
+        description
+    };
+}
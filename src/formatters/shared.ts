@@ -0,0 +1,278 @@
+/**
+ * Formatter Helpers
+ *
+ * Shared building blocks for turning an ErrorReport into text for
+ * chat and issue-tracker payloads.
+ */
+
+import { ErrorReport, ErrorInfo, UserAction, ActionWithRelativeTime, RealtimeAction } from '../types';
+import { getGraphQLLabel } from '../utils/graphql';
+import { formatFrames } from '../utils/stack-parser';
+
+export interface FormatterOptions {
+    /** Maximum number of recent actions to list (default: 10) */
+    maxActions?: number;
+    /** Maximum number of stack lines to include (default: 10) */
+    maxStackLines?: number;
+    /** Optional title prefix, e.g. an app or environment name */
+    title?: string;
+}
+
+export const DEFAULT_MAX_ACTIONS = 10;
+export const DEFAULT_MAX_STACK_LINES = 10;
+
+/**
+ * Truncate text to a maximum length, marking the cut with an ellipsis
+ */
+export function truncate(text: string, maxLength: number): string {
+    if (text.length <= maxLength) {
+        return text;
+    }
+    if (maxLength <= 1) {
+        return text.slice(0, Math.max(0, maxLength));
+    }
+    return text.slice(0, maxLength - 1) + '…';
+}
+
+/**
+ * Break up triple backticks so text can't close a surrounding code block
+ */
+export function escapeCodeFence(text: string): string {
+    return text.replace(/```/g, '`\u200b``');
+}
+
+/**
+ * Get a one-line title for the report, e.g. "TypeError: x is undefined"
+ */
+export function getErrorTitle(report: ErrorReport, prefix?: string): string {
+    const title = `${report.error.type}: ${report.error.message}`;
+    return prefix ? `[${prefix}] ${title}` : title;
+}
+
+/**
+ * Keep only the first lines of a stack trace. Parsed stacks collapse
+ * library frames so the app frames fit in the limit.
+ */
+export function getShortStack(error: ErrorInfo, maxLines: number): string | undefined {
+    const { stack, frames } = error;
+    if (!stack) {
+        return undefined;
+    }
+    if (frames && frames.length > 0) {
+        return [`${error.type}: ${error.message.split('\n')[0]}`, ...formatFrames(frames, maxLines - 1)].join('\n');
+    }
+    const lines = stack.split('\n');
+    if (lines.length <= maxLines) {
+        return stack;
+    }
+    return [...lines.slice(0, maxLines), `    ... ${lines.length - maxLines} more`].join('\n');
+}
+
+/**
+ * Get the actions that make up the readable timeline, leaving out the
+ * DOM recorder's replay events
+ */
+export function getTimelineActions(report: ErrorReport): ActionWithRelativeTime[] {
+    return report.actions.filter(action => action.type !== 'replay');
+}
+
+/**
+ * Get the most recent actions, oldest first
+ */
+export function getRecentActions(report: ErrorReport, maxActions: number): ActionWithRelativeTime[] {
+    return maxActions > 0 ? getTimelineActions(report).slice(-maxActions) : [];
+}
+
+/**
+ * Summarise a WebSocket/EventSource action, without its transport
+ */
+export function describeRealtime(action: RealtimeAction): string {
+    switch (action.event) {
+        case 'messages': {
+            const sent = action.sent ? ` sent ${action.sent.count} (${action.sent.bytes} B)` : '';
+            const received = action.received ? ` received ${action.received.count} (${action.received.bytes} B)` : '';
+            return `messages ${action.url}${sent}${received}`;
+        }
+        case 'close': {
+            const code = action.code !== undefined ? ` ${action.code}` : '';
+            const reason = action.reason ? ` "${action.reason}"` : '';
+            return `close ${action.url}${code}${reason}`;
+        }
+        case 'reconnect':
+            return `reconnect ${action.url} (attempt ${action.attempt ?? 1})`;
+        default:
+            return `${action.event} ${action.url}`;
+    }
+}
+
+/**
+ * The parts of an action that every output format shows. Renderers only
+ * decide how to lay them out and mark them up.
+ */
+export interface ActionParts {
+    /** What the action acted on, e.g. `button#save` or `GET /api/cart` */
+    summary: string;
+    /** Value or result, e.g. `"hello"`, `500` or `queued` */
+    outcome?: string;
+    /** Secondary detail, e.g. a duration, size or orientation */
+    note?: string;
+    /** Failed request, console error, rejected beacon or missing resource */
+    failed: boolean;
+}
+
+// Leading word for describeAction, for types whose summary doesn't say what happened
+const ACTION_VERBS: Partial<Record<UserAction['type'], string>> = {
+    click: 'click',
+    input: 'input',
+    navigation: 'navigate',
+    console: 'console',
+    beacon: 'beacon',
+    scroll: 'scroll',
+    viewport: 'viewport'
+};
+
+/**
+ * Split an action into the parts shown by formatters and renderers
+ */
+export function getActionParts(action: UserAction): ActionParts {
+    switch (action.type) {
+        case 'click':
+            return {
+                summary: action.element,
+                note: action.text ? `"${action.text}"` : undefined,
+                failed: false
+            };
+        case 'input':
+            return {
+                summary: action.element,
+                outcome: action.wasCleared ? '(cleared)' : `"${action.value}"`,
+                note: action.inputType,
+                failed: false
+            };
+        case 'navigation':
+            return { summary: `${action.from} → ${action.to}`, failed: false };
+        case 'network': {
+            const operation = action.graphql ? ` (${getGraphQLLabel(action.graphql)})` : '';
+            return {
+                summary: `${action.method} ${action.url}${operation}`,
+                outcome: action.error
+                    ? `failed: ${action.error}`
+                    : action.status !== undefined ? String(action.status) : 'pending',
+                note: action.duration !== undefined ? `${action.duration}ms` : undefined,
+                failed: Boolean(action.error) || (action.status !== undefined && action.status >= 400)
+            };
+        }
+        case 'console':
+            return {
+                summary: `${action.level}: ${action.message}`,
+                failed: action.level === 'error' || action.level === 'assert'
+            };
+        case 'realtime':
+            return {
+                summary: `${action.transport} ${describeRealtime(action)}`,
+                failed: action.event === 'error' || (action.event === 'close' && action.wasClean === false)
+            };
+        case 'beacon':
+            return {
+                summary: action.url,
+                outcome: action.queued ? 'queued' : 'rejected',
+                note: action.size !== undefined ? `${action.size} B` : undefined,
+                failed: !action.queued
+            };
+        case 'resource':
+            return {
+                summary: `${action.isChunk ? 'chunk' : action.tag} ${action.url}`,
+                outcome: 'failed to load',
+                failed: true
+            };
+        case 'scroll':
+            return {
+                summary: `${action.element ?? 'window'} → ${action.x},${action.y}`,
+                note: `${action.percent}%`,
+                failed: false
+            };
+        case 'viewport':
+            return {
+                summary: `${action.event} ${action.width}x${action.height}`,
+                note: action.orientation,
+                failed: false
+            };
+        case 'custom':
+            return {
+                summary: action.name,
+                note: action.data ? JSON.stringify(action.data) : undefined,
+                failed: false
+            };
+        default:
+            return { summary: (action as UserAction).type, failed: false };
+    }
+}
+
+/**
+ * Describe an action in a single line, without its time
+ */
+export function describeAction(action: UserAction): string {
+    const { summary, outcome, note } = getActionParts(action);
+    const component = (action.type === 'click' || action.type === 'input') && action.component
+        ? `<${action.component}>`
+        : undefined;
+
+    return [ACTION_VERBS[action.type], summary, outcome, note, component]
+        .filter(part => part)
+        .join(' ');
+}
+
+/**
+ * Get the context and user details as label/value pairs
+ */
+export function getContextEntries(report: ErrorReport): [string, string][] {
+    const { context, user } = report;
+    const entries: [string, string][] = [
+        ['URL', context.url],
+        ['Viewport', `${context.viewport.width}×${context.viewport.height}`],
+        ['Platform', context.platform],
+        ['User Agent', context.userAgent],
+        ['Time', context.timestamp]
+    ];
+
+    if (report.occurrences && report.occurrences > 1) {
+        entries.push(['Occurrences', `${report.occurrences} (since ${report.firstSeen ?? report.timestamp})`]);
+    }
+    if (user?.id) {
+        entries.push(['User', String(user.id)]);
+    }
+    if (user?.sessionId) {
+        entries.push(['Session', String(user.sessionId)]);
+    }
+
+    return entries;
+}
+
+/**
+ * Format actions as aligned "time  description" lines
+ */
+export function formatActionLines(actions: ActionWithRelativeTime[], maxLineLength: number): string[] {
+    const width = actions.reduce((max, action) => Math.max(max, action.relativeTime.length), 0);
+    return actions.map(action =>
+        truncate(`${action.relativeTime.padStart(width)}  ${describeAction(action)}`, maxLineLength)
+    );
+}
+
+/**
+ * Join lines, keeping the most recent ones that fit within maxLength
+ */
+export function joinLinesWithin(lines: string[], maxLength: number): string {
+    const kept: string[] = [];
+    let length = 0;
+
+    for (let i = lines.length - 1; i >= 0; i--) {
+        const added = lines[i].length + (kept.length > 0 ? 1 : 0);
+        if (length + added > maxLength) {
+            break;
+        }
+        kept.unshift(lines[i]);
+        length += added;
+    }
+
+    return kept.join('\n');
+}
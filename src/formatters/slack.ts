@@ -0,0 +1,128 @@
+/**
+ * Slack Formatter
+ *
+ * Turns an ErrorReport into a Slack Block Kit message for incoming webhooks.
+ */
+
+import { ErrorReport } from '../types';
+import {
+    FormatterOptions,
+    DEFAULT_MAX_ACTIONS,
+    DEFAULT_MAX_STACK_LINES,
+    truncate,
+    escapeCodeFence,
+    getErrorTitle,
+    getShortStack,
+    getRecentActions,
+    getTimelineActions,
+    getContextEntries,
+    formatActionLines,
+    joinLinesWithin
+} from './shared';
+
+export interface SlackTextObject {
+    type: 'plain_text' | 'mrkdwn';
+    text: string;
+}
+
+export interface SlackBlock {
+    type: 'header' | 'section' | 'context' | 'divider';
+    text?: SlackTextObject;
+    fields?: SlackTextObject[];
+    elements?: SlackTextObject[];
+}
+
+export interface SlackMessage {
+    /** Fallback text shown in notifications */
+    text: string;
+    blocks: SlackBlock[];
+}
+
+// Block Kit limits
+const HEADER_MAX = 150;
+const SECTION_TEXT_MAX = 3000;
+const FIELD_MAX = 2000;
+const MAX_FIELDS = 10;
+const FALLBACK_TEXT_MAX = 3000;
+
+/**
+ * Escape the characters Slack treats as control sequences in mrkdwn
+ */
+function escapeMrkdwn(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Wrap text in a code block, truncating it to fit the given length
+ */
+function codeBlock(text: string, maxLength: number): string {
+    const body = escapeCodeFence(escapeMrkdwn(text));
+    return '```' + truncate(body, maxLength - 6) + '```';
+}
+
+/**
+ * Format an error report as a Slack Block Kit message
+ */
+export function formatSlackMessage(report: ErrorReport, options: FormatterOptions = {}): SlackMessage {
+    const {
+        maxActions = DEFAULT_MAX_ACTIONS,
+        maxStackLines = DEFAULT_MAX_STACK_LINES,
+        title
+    } = options;
+
+    const errorTitle = getErrorTitle(report, title);
+    const blocks: SlackBlock[] = [
+        {
+            type: 'header',
+            text: { type: 'plain_text', text: truncate(errorTitle, HEADER_MAX) }
+        }
+    ];
+
+    // Error message and stack
+    const stack = getShortStack(report.error, maxStackLines);
+    const errorText = `*${escapeMrkdwn(report.error.type)}*\n${escapeMrkdwn(report.error.message)}`;
+    blocks.push({
+        type: 'section',
+        text: { type: 'mrkdwn', text: truncate(errorText, SECTION_TEXT_MAX) }
+    });
+    if (stack) {
+        blocks.push({
+            type: 'section',
+            text: { type: 'mrkdwn', text: codeBlock(stack, SECTION_TEXT_MAX) }
+        });
+    }
+
+    // Context
+    blocks.push({
+        type: 'section',
+        fields: getContextEntries(report).slice(0, MAX_FIELDS).map(([label, value]) => ({
+            type: 'mrkdwn',
+            text: truncate(`*${label}*\n${escapeMrkdwn(value)}`, FIELD_MAX)
+        }))
+    });
+
+    // Recent actions
+    const actions = getRecentActions(report, maxActions);
+    if (actions.length > 0) {
+        const lines = formatActionLines(actions, 200).map(line => escapeCodeFence(escapeMrkdwn(line)));
+        const heading = `*Recent actions* (${actions.length} of ${getTimelineActions(report).length})\n`;
+        blocks.push({ type: 'divider' });
+        blocks.push({
+            type: 'section',
+            text: {
+                type: 'mrkdwn',
+                text: heading + '```' + joinLinesWithin(lines, SECTION_TEXT_MAX - heading.length - 6) + '```'
+            }
+        });
+    }
+
+    blocks.push({
+        type: 'context',
+        elements: [{ type: 'mrkdwn', text: `Report \`${escapeMrkdwn(report.reportId)}\` · ${report.timestamp}` }]
+    });
+
+    return {
+        text: truncate(errorTitle, FALLBACK_TEXT_MAX),
+        blocks
+    };
+}
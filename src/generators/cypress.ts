@@ -0,0 +1,212 @@
+/**
+ * Cypress Generator
+ *
+ * Drafts a Cypress spec that replays the actions leading up to an error,
+ * with cy.intercept stubs for the network calls that were made.
+ */
+
+import { ErrorReport, NetworkAction, UserAction } from '../types';
+import { describeAction, getTimelineActions } from '../formatters/shared';
+import {
+    GeneratorOptions,
+    quote,
+    numberLiteral,
+    commentText,
+    parseElementIdentifier,
+    getTestAttribute,
+    getInputStep,
+    dedupeInputs,
+    getBaseURL,
+    getStartPath,
+    getTestName
+} from './shared';
+
+const INDENT = '    ';
+
+// Don't let typed values like "{enter}" be treated as key sequences
+const TYPE_OPTIONS = '{ parseSpecialCharSequences: false }';
+
+/**
+ * Build a Cypress query for an element identifier, preferring
+ * data-cy and data-testid attributes
+ */
+function toQuery(identifier: string): string {
+    const testAttribute = getTestAttribute(identifier);
+    if (testAttribute) {
+        return `cy.get(${quote(`[${testAttribute.attribute}="${testAttribute.value}"]`)})`;
+    }
+
+    const parsed = parseElementIdentifier(identifier);
+    if (parsed.kind === 'text') {
+        return `cy.contains(${quote(parsed.tag)}, ${quote(parsed.text)})`;
+    }
+
+    return `cy.get(${quote(parsed.selector)})`;
+}
+
+/**
+ * Turn a recorded URL (path and query) into an intercept glob
+ */
+function toRouteGlob(url: string): string {
+    const path = url.split('?')[0];
+    return `**${path}*`;
+}
+
+/**
+ * Build cy.intercept stubs for the recorded network calls.
+ * Repeated calls to the same route with different outcomes are stubbed
+ * once each, in order, using `times: 1`.
+ */
+function toIntercepts(actions: NetworkAction[]): string[] {
+    const routes = new Map<string, NetworkAction[]>();
+    for (const action of actions) {
+        if (action.status === undefined && !action.error) continue;
+        const key = `${action.method} ${toRouteGlob(action.url)}`;
+        const calls = routes.get(key) ?? [];
+        calls.push(action);
+        routes.set(key, calls);
+    }
+
+    const lines: string[] = [];
+    let aliasIndex = 0;
+
+    for (const calls of routes.values()) {
+        const { method, url } = calls[0];
+        const outcomes = new Set(calls.map(call => call.error ? 'error' : String(call.status)));
+        const alias = `request${++aliasIndex}`;
+
+        const toResponse = (call: NetworkAction) => call.error
+            ? '{ forceNetworkError: true }'
+            : `{ statusCode: ${numberLiteral(call.status)}, body: {} }`;
+
+        lines.push(`// ${commentText(`${method} ${url}`)} (recorded ${calls.length}x) - TODO: fill in response bodies`);
+
+        if (outcomes.size === 1) {
+            lines.push(`cy.intercept(${quote(method)}, ${quote(toRouteGlob(url))}, ${toResponse(calls[0])}).as(${quote(alias)});`);
+            continue;
+        }
+
+        // Cypress matches the most recently defined intercept first, so define them in reverse
+        for (const call of [...calls].reverse()) {
+            lines.push(
+                `cy.intercept({ method: ${quote(method)}, url: ${quote(toRouteGlob(url))}, times: 1 }, ` +
+                `${toResponse(call)}).as(${quote(alias)});`
+            );
+        }
+    }
+
+    return lines;
+}
+
+/**
+ * Convert one action into Cypress commands
+ */
+function toCommands(action: UserAction, previous: UserAction | undefined, baseURL: string): string[] {
+    switch (action.type) {
+        case 'click':
+            return [`${toQuery(action.element)}.click();`];
+
+        case 'input': {
+            const query = toQuery(action.element);
+            const step = getInputStep(action);
+            switch (step.kind) {
+                case 'check':
+                    return [`${query}.check();`];
+                case 'uncheck':
+                    return [`${query}.uncheck();`];
+                case 'select':
+                    return [`${query}.select(${quote(step.label)});`];
+                case 'clear':
+                    return [`${query}.clear();`];
+                case 'fill':
+                    if (step.sanitized) {
+                        return [
+                            '// TODO: value was sanitized in the report - replace the placeholder',
+                            `${query}.clear().type('<sanitized>', ${TYPE_OPTIONS});`
+                        ];
+                    }
+                    return [
+                        ...(step.truncated ? ['// TODO: value was truncated in the report'] : []),
+                        `${query}.clear().type(${quote(step.value)}, ${TYPE_OPTIONS});`
+                    ];
+            }
+            return [];
+        }
+
+        case 'scroll':
+            return [`${action.element ? toQuery(action.element) : 'cy'}.scrollTo(${numberLiteral(action.x)}, ${numberLiteral(action.y)});`];
+
+        case 'viewport':
+            return [`cy.viewport(${numberLiteral(action.width)}, ${numberLiteral(action.height)});`];
+
+        case 'navigation': {
+            // Navigations right after a click were most likely caused by it
+            const path = action.to.split(/[?#]/)[0];
+            if (previous?.type === 'click') {
+                return [`cy.location('pathname').should('eq', ${quote(path)});`];
+            }
+            return [`cy.visit(${quote(baseURL + action.to)});`];
+        }
+
+        default:
+            // Network calls are covered by the intercepts at the top of the test
+            return [`// ${commentText(describeAction(action))}`];
+    }
+}
+
+/**
+ * Generate a Cypress spec that reproduces the actions in a report
+ */
+export function toCypressSpec(report: ErrorReport, options: GeneratorOptions = {}): string {
+    const baseURL = getBaseURL(report, options);
+    const startPath = getStartPath(report);
+    const actions = dedupeInputs(getTimelineActions(report));
+    const networkActions = report.actions.filter((action): action is NetworkAction & { relativeTime: string } =>
+        action.type === 'network'
+    );
+
+    const body: string[] = [];
+
+    const intercepts = toIntercepts(networkActions);
+    if (intercepts.length > 0) {
+        body.push(...intercepts, '');
+    }
+
+    body.push(`cy.visit(${quote(baseURL + startPath)});`);
+
+    let previous: UserAction | undefined;
+    for (const action of actions) {
+        // The first navigation's "from" page was already visited above
+        if (!previous && action.type === 'navigation' && action.from === startPath) {
+            if (action.from !== action.to) {
+                body.push(`cy.visit(${quote(baseURL + action.to)});`);
+            }
+            previous = action;
+            continue;
+        }
+
+        body.push('', `// ${action.relativeTime}`);
+        body.push(...toCommands(action, previous, baseURL));
+        previous = action;
+    }
+
+    body.push(
+        '',
+        `// The report was captured here: ${commentText(`${report.error.type}: ${report.error.message}`)}`,
+        '// Cypress fails the test on uncaught exceptions, so it fails while the bug is present'
+    );
+
+    const lines = [
+        `// Generated from error report ${report.reportId}`,
+        `// Recorded on ${commentText(report.context.url)} at ${commentText(report.timestamp)}`,
+        '',
+        "describe('error replay', () => {",
+        `${INDENT}it(${quote(getTestName(report, options))}, () => {`,
+        ...body.map(line => (line ? INDENT + INDENT + line : line)),
+        `${INDENT}});`,
+        '});',
+        ''
+    ];
+
+    return lines.join('\n');
+}
@@ -0,0 +1,157 @@
+/**
+ * Playwright Generator
+ *
+ * Drafts a Playwright test that replays the actions leading up to an error.
+ */
+
+import { ErrorReport, UserAction } from '../types';
+import { describeAction, getTimelineActions } from '../formatters/shared';
+import {
+    GeneratorOptions,
+    quote,
+    numberLiteral,
+    commentText,
+    parseElementIdentifier,
+    getTestAttribute,
+    getInputStep,
+    dedupeInputs,
+    getBaseURL,
+    getStartPath,
+    getTestName
+} from './shared';
+
+const INDENT = '    ';
+
+// Roles for elements whose identifier was built from their text
+const TEXT_ROLES: Record<string, string> = {
+    button: 'button',
+    a: 'link'
+};
+
+/**
+ * Build a Playwright locator expression for an element identifier
+ */
+function toLocator(identifier: string): string {
+    const testAttribute = getTestAttribute(identifier);
+    if (testAttribute?.attribute === 'data-testid') {
+        return `page.getByTestId(${quote(testAttribute.value)})`;
+    }
+
+    const parsed = parseElementIdentifier(identifier);
+    if (parsed.kind === 'text') {
+        const role = TEXT_ROLES[parsed.tag];
+        if (role) {
+            return `page.getByRole(${quote(role)}, { name: ${quote(parsed.text)} })`;
+        }
+        return `page.locator(${quote(parsed.tag)}, { hasText: ${quote(parsed.text)} })`;
+    }
+
+    return `page.locator(${quote(parsed.selector)})`;
+}
+
+/**
+ * Convert one action into Playwright statements
+ */
+function toSteps(action: UserAction, previous: UserAction | undefined, baseURL: string): string[] {
+    switch (action.type) {
+        case 'click':
+            return [`await ${toLocator(action.element)}.click();`];
+
+        case 'input': {
+            const locator = toLocator(action.element);
+            const step = getInputStep(action);
+            switch (step.kind) {
+                case 'check':
+                    return [`await ${locator}.check();`];
+                case 'uncheck':
+                    return [`await ${locator}.uncheck();`];
+                case 'select':
+                    return [`await ${locator}.selectOption({ label: ${quote(step.label)} });`];
+                case 'clear':
+                    return [`await ${locator}.fill('');`];
+                case 'fill':
+                    if (step.sanitized) {
+                        return [
+                            '// TODO: value was sanitized in the report - replace the placeholder',
+                            `await ${locator}.fill('<sanitized>');`
+                        ];
+                    }
+                    return [
+                        ...(step.truncated ? ['// TODO: value was truncated in the report'] : []),
+                        `await ${locator}.fill(${quote(step.value)});`
+                    ];
+            }
+            return [];
+        }
+
+        case 'scroll':
+            if (action.element) {
+                return [`await ${toLocator(action.element)}.evaluate(element => element.scrollTo(${numberLiteral(action.x)}, ${numberLiteral(action.y)}));`];
+            }
+            return [`await page.evaluate(() => window.scrollTo(${numberLiteral(action.x)}, ${numberLiteral(action.y)}));`];
+
+        case 'viewport':
+            return [`await page.setViewportSize({ width: ${numberLiteral(action.width)}, height: ${numberLiteral(action.height)} });`];
+
+        case 'navigation':
+            // Navigations right after a click were most likely caused by it
+            if (previous?.type === 'click') {
+                return [`await page.waitForURL(${quote(baseURL + action.to)});`];
+            }
+            return [`await page.goto(${quote(baseURL + action.to)});`];
+
+        default:
+            return [`// ${commentText(describeAction(action))}`];
+    }
+}
+
+/**
+ * Generate a Playwright test that reproduces the actions in a report
+ */
+export function toPlaywrightScript(report: ErrorReport, options: GeneratorOptions = {}): string {
+    const baseURL = getBaseURL(report, options);
+    const actions = dedupeInputs(getTimelineActions(report));
+
+    const body: string[] = [
+        'const errors: Error[] = [];',
+        "page.on('pageerror', error => errors.push(error));",
+        '',
+        `await page.goto(${quote(baseURL + getStartPath(report))});`
+    ];
+
+    let previous: UserAction | undefined;
+    for (const action of actions) {
+        // The first navigation's "from" page was already visited above
+        if (!previous && action.type === 'navigation' && action.from === getStartPath(report)) {
+            if (action.from !== action.to) {
+                body.push(`await page.goto(${quote(baseURL + action.to)});`);
+            }
+            previous = action;
+            continue;
+        }
+
+        body.push('', `// ${action.relativeTime}`);
+        body.push(...toSteps(action, previous, baseURL));
+        previous = action;
+    }
+
+    body.push(
+        '',
+        `// The report was captured here: ${commentText(`${report.error.type}: ${report.error.message}`)}`,
+        'expect(errors).toEqual([]);'
+    );
+
+    const lines = [
+        "import { test, expect } from '@playwright/test';",
+        '',
+        `// Generated from error report ${report.reportId}`,
+        `// Recorded on ${commentText(report.context.url)} at ${commentText(report.timestamp)}`,
+        '',
+        `test(${quote(getTestName(report, options))}, async ({ page }) => {`,
+        ...body.map(line => (line ? INDENT + line : line)),
+        '});',
+        ''
+    ];
+
+    return lines.join('\n');
+}
@@ -0,0 +1,177 @@
+/**
+ * Generator Helpers
+ *
+ * Shared logic for turning recorded actions into test reproduction scripts.
+ */
+
+import { ErrorReport, InputAction, UserAction } from '../types';
+import { getTimelineActions } from '../formatters/shared';
+
+export interface GeneratorOptions {
+    /** Base URL for page visits (default: origin of `report.context.url`) */
+    baseURL?: string;
+    /** Name of the generated test (default: derived from the error) */
+    testName?: string;
+}
+
+/**
+ * An element identifier from getElementIdentifier(), parsed into something
+ * a test runner can query
+ */
+export type ParsedSelector =
+    | { kind: 'css'; selector: string; tag: string }
+    | { kind: 'text'; tag: string; text: string };
+
+/**
+ * The different kinds of steps an input action can turn into
+ */
+export type InputStep =
+    | { kind: 'fill'; value: string; sanitized: boolean; truncated: boolean }
+    | { kind: 'clear' }
+    | { kind: 'check' }
+    | { kind: 'uncheck' }
+    | { kind: 'select'; label: string };
+
+export const SANITIZED_VALUE = '[SANITIZED]';
+
+/**
+ * Quote a string as a single-quoted JavaScript literal
+ */
+export function quote(value: string): string {
+    return "'" + value
+        .replace(/\\/g, '\\\\')
+        .replace(/'/g, "\\'")
+        .replace(/\n/g, '\\n')
+        .replace(/\r/g, '\\r') + "'";
+}
+
+/**
+ * Format a number as a JavaScript literal, using 0 for anything that is
+ * not a finite number
+ */
+export function numberLiteral(value: unknown): string {
+    const number = Number(value);
+    return String(Number.isFinite(number) ? number : 0);
+}
+
+/**
+ * Make text safe to put in a single-line comment
+ */
+export function commentText(value: string): string {
+    return value.replace(/[\r\n]+/g, ' ').slice(0, 200);
+}
+
+/**
+ * Parse an element identifier such as `button#submit`,
+ * `input[data-testid="email"]` or `button "Save"`
+ */
+export function parseElementIdentifier(identifier: string): ParsedSelector {
+    const textMatch = identifier.match(/^([a-z][a-z0-9-]*) "(.*)"$/i);
+    if (textMatch) {
+        return { kind: 'text', tag: textMatch[1].toLowerCase(), text: textMatch[2] };
+    }
+
+    // For CSS paths the last segment holds the target element's tag
+    const lastSegment = identifier.split('>').pop()!.trim();
+    const tagMatch = lastSegment.match(/^([a-z][a-z0-9-]*)/i);
+    return { kind: 'css', selector: identifier, tag: tagMatch ? tagMatch[1].toLowerCase() : '' };
+}
+
+/**
+ * Get the value of a test attribute (data-testid, data-cy, data-test) from
+ * an identifier like `input[data-testid="email"]`
+ */
+export function getTestAttribute(identifier: string): { attribute: string; value: string } | null {
+    const match = identifier.match(/^[a-z][a-z0-9-]*\[(data-testid|data-cy|data-test)="([^"]*)"\]$/i);
+    return match ? { attribute: match[1], value: match[2] } : null;
+}
+
+/**
+ * Decide what kind of step an input action represents.
+ * Checkbox and select actions are recorded as InputActions too, so they
+ * are recognised by their values and element tags.
+ */
+export function getInputStep(action: InputAction): InputStep {
+    const { tag } = parseElementIdentifier(action.element);
+
+    if (!action.isSanitized && action.valueLength === 1 && action.inputType === 'change') {
+        if (action.value === 'checked') return { kind: 'check' };
+        if (action.value === 'unchecked') return { kind: 'uncheck' };
+    }
+
+    if (tag === 'select') {
+        return { kind: 'select', label: action.value };
+    }
+
+    if (action.wasCleared || action.valueLength === 0) {
+        return { kind: 'clear' };
+    }
+
+    return {
+        kind: 'fill',
+        value: action.value,
+        sanitized: action.isSanitized || action.value === SANITIZED_VALUE,
+        // Previews longer than 50 characters are cut and suffixed with "..."
+        truncated: !action.isSanitized && action.valueLength > 50
+    };
+}
+
+/**
+ * Drop input actions that repeat the previous input on the same element
+ * (a change followed by a blur records the same value twice)
+ */
+export function dedupeInputs<T extends UserAction>(actions: T[]): T[] {
+    const result: T[] = [];
+    let lastInput: InputAction | null = null;
+
+    for (const action of actions) {
+        if (action.type === 'input') {
+            if (lastInput && lastInput.element === action.element && lastInput.value === action.value) {
+                continue;
+            }
+            lastInput = action;
+        } else if (action.type !== 'network' && action.type !== 'console') {
+            lastInput = null;
+        }
+        result.push(action);
+    }
+
+    return result;
+}
+
+/**
+ * Get the base URL to visit pages on
+ */
+export function getBaseURL(report: ErrorReport, options: GeneratorOptions): string {
+    if (options.baseURL) {
+        return options.baseURL.replace(/\/$/, '');
+    }
+    try {
+        return new URL(report.context.url).origin;
+    } catch {
+        return '';
+    }
+}
+
+/**
+ * Get the path the recording started on
+ */
+export function getStartPath(report: ErrorReport): string {
+    const first = getTimelineActions(report)[0];
+    if (!first) {
+        try {
+            const url = new URL(report.context.url);
+            return url.pathname + url.search;
+        } catch {
+            return '/';
+        }
+    }
+    return first.type === 'navigation' ? first.from : first.page;
+}
+
+/**
+ * Get a test name for the report
+ */
+export function getTestName(report: ErrorReport, options: GeneratorOptions): string {
+    return options.testName ?? `reproduces ${report.error.type}: ${commentText(report.error.message).slice(0, 80)}`;
+}
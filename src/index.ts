@@ -12,38 +12,104 @@ import {
     ErrorReport,
     ErrorInfo,
     ContextInfo,
+    CaptureOptions,
     ActionWithRelativeTime,
-    DetectorCleanup
+    CustomAction,
+    DetectorCleanup,
+    DetectorFactory,
+    DetectorContext
 } from './types';
 import { createClickDetector } from './detectors/click-detector';
 import { createInputDetector } from './detectors/input-detector';
 import { createNavigationDetector } from './detectors/navigation-detector';
 import { createNetworkDetector } from './detectors/network-detector';
-import { createConsoleDetector } from './detectors/console-detector';
+import { createConsoleDetector, createConsoleError } from './detectors/console-detector';
+import { createRealtimeDetector, RealtimeDetector } from './detectors/realtime-detector';
+import { createResourceDetector } from './detectors/resource-detector';
+import { createScrollDetector } from './detectors/scroll-detector';
+import { createDomRecorder, DomRecorder } from './detectors/dom-recorder';
+import { createWebhookTransport, Transport } from './transport/webhook-transport';
+import { getActionMetadata } from './utils/action-metadata';
+import { sanitizeData } from './utils/sanitizer';
+import { getErrorFingerprint } from './utils/fingerprint';
+import { parseStack } from './utils/stack-parser';
+import { createErrorThrottle, ErrorThrottle } from './utils/error-throttle';
+import { isSampled, getReportSampleRate } from './utils/sampling';
+import { captureDomSnapshot } from './utils/dom-snapshot';
+
+// Config keys that have no default value
+type OptionalConfigKeys = 'onError' | 'user' | 'transport' | 'detectors' | 'beforeAction' | 'beforeSend' | 'throttle' | 'sampling' | 'domSnapshot' | 'recordDom' | 'stackTrace';
+
+type ResolvedConfig = Required<Omit<ErrorReplayConfig, OptionalConfigKeys>> & Pick<ErrorReplayConfig, OptionalConfigKeys>;
 
 // Default configuration
-const DEFAULT_CONFIG: Required<Omit<ErrorReplayConfig, 'onError' | 'user'>> = {
+const DEFAULT_CONFIG: Required<Omit<ErrorReplayConfig, OptionalConfigKeys>> = {
     maxActions: 50,
     sanitize: [],
     captureComponents: true,
+    captureComponentState: false,
     trackClicks: true,
     trackInputs: true,
     trackNavigation: true,
     trackNetwork: true,
-    trackConsole: true
+    trackConsole: true,
+    trackRealtime: false,
+    trackResources: true,
+    trackScroll: false
 };
 
 export class ErrorReplay {
     private buffer: CircularBuffer<UserAction>;
-    private config: Required<Omit<ErrorReplayConfig, 'onError' | 'user'>> & Pick<ErrorReplayConfig, 'onError' | 'user'>;
+    // Replay events are kept apart so they don't push out user actions
+    private replayBuffer: CircularBuffer<UserAction> | null = null;
+    private domRecorder: DomRecorder | null = null;
+    private realtimeDetector: RealtimeDetector | null = null;
+    private config: ResolvedConfig;
+    private transport: Transport | null = null;
+    private throttle: ErrorThrottle | null = null;
     private cleanupFunctions: DetectorCleanup[] = [];
+    private customDetectors: Map<string, DetectorFactory> = new Map();
+    private customCleanups: Map<string, DetectorCleanup> = new Map();
     private isRunning: boolean = false;
+    private sessionSampled: boolean;
+    private sessionSampleRate: number;
     private errorHandler: ((event: ErrorEvent) => void) | null = null;
     private rejectionHandler: ((event: PromiseRejectionEvent) => void) | null = null;
+    private pageHideHandler: (() => void) | null = null;
+    // Errors already reported through `capture(error, { uncaught: true })`,
+    // e.g. by the error boundary, so the window handlers don't report them again
+    private reportedErrors: WeakSet<object> = new WeakSet();
 
     constructor(config: ErrorReplayConfig = {}) {
         this.config = { ...DEFAULT_CONFIG, ...config };
         this.buffer = new CircularBuffer<UserAction>(this.config.maxActions);
+        if (this.config.recordDom) {
+            const { maxEvents = 200 } = typeof this.config.recordDom === 'object' ? this.config.recordDom : {};
+            this.replayBuffer = new CircularBuffer<UserAction>(maxEvents);
+        }
+
+        // Decide once per instance so repeated start() calls agree
+        this.sessionSampleRate = this.config.sampling?.sessionSampleRate ?? 1;
+        this.sessionSampled = isSampled(this.sessionSampleRate);
+
+        if (this.config.transport) {
+            this.transport = createWebhookTransport(this.config.transport, {
+                beforePageHide: () => this.throttle?.flush()
+            });
+        }
+
+        if (this.config.throttle) {
+            this.throttle = createErrorThrottle(
+                typeof this.config.throttle === 'object' ? this.config.throttle : {},
+                report => this.dispatch(report, true)
+            );
+        }
+
+        if (this.config.detectors) {
+            for (const [name, factory] of Object.entries(this.config.detectors)) {
+                this.customDetectors.set(name, factory);
+            }
+        }
     }
 
     /**
@@ -55,17 +121,27 @@ export class ErrorReplay {
             return;
         }
 
+        // Session was not sampled - record nothing
+        if (!this.sessionSampled) {
+            return;
+        }
+
         this.isRunning = true;
 
-        // Add action to buffer
-        const addAction = (action: UserAction) => {
-            this.buffer.add(action);
-        };
+        const addAction = this.addAction;
+        const { captureComponentState } = this.config;
+        const componentState = captureComponentState
+            ? {
+                ...(typeof captureComponentState === 'object' ? captureComponentState : {}),
+                sanitizePatterns: this.config.sanitize
+            }
+            : undefined;
 
         // Initialize detectors based on config
         if (this.config.trackClicks) {
             const cleanup = createClickDetector({
                 captureComponents: this.config.captureComponents,
+                componentState,
                 onAction: addAction
             });
             this.cleanupFunctions.push(cleanup);
@@ -79,6 +155,7 @@ export class ErrorReplay {
 
             const cleanup = createInputDetector({
                 captureComponents: this.config.captureComponents,
+                componentState,
                 sanitizePatterns: this.config.sanitize,
                 onAction: addAction,
                 trackConfig
@@ -94,19 +171,83 @@ export class ErrorReplay {
         }
 
         if (this.config.trackNetwork) {
+            const trackConfig = typeof this.config.trackNetwork === 'object'
+                ? this.config.trackNetwork
+                : undefined;
+
             const cleanup = createNetworkDetector({
-                onAction: addAction
+                onAction: addAction,
+                sanitizePatterns: this.config.sanitize,
+                trackConfig
             });
             this.cleanupFunctions.push(cleanup);
         }
 
         if (this.config.trackConsole) {
+            const trackConfig = typeof this.config.trackConsole === 'object'
+                ? this.config.trackConsole
+                : undefined;
+
             const cleanup = createConsoleDetector({
-                onAction: addAction
+                onAction: addAction,
+                onPromote: action => this.handleError(createConsoleError(action)),
+                sanitizePatterns: this.config.sanitize,
+                trackConfig
+            });
+            this.cleanupFunctions.push(cleanup);
+        }
+
+        if (this.config.trackRealtime) {
+            const trackConfig = typeof this.config.trackRealtime === 'object'
+                ? this.config.trackRealtime
+                : undefined;
+
+            this.realtimeDetector = createRealtimeDetector({
+                onAction: addAction,
+                sanitizePatterns: this.config.sanitize,
+                trackConfig
+            });
+            this.cleanupFunctions.push(this.realtimeDetector);
+        }
+
+        if (this.config.trackResources) {
+            const trackConfig = typeof this.config.trackResources === 'object'
+                ? this.config.trackResources
+                : undefined;
+
+            const cleanup = createResourceDetector({
+                onAction: addAction,
+                trackConfig
+            });
+            this.cleanupFunctions.push(cleanup);
+        }
+
+        if (this.config.trackScroll) {
+            const trackConfig = typeof this.config.trackScroll === 'object'
+                ? this.config.trackScroll
+                : undefined;
+
+            const cleanup = createScrollDetector({
+                onAction: addAction,
+                trackConfig
             });
             this.cleanupFunctions.push(cleanup);
         }
 
+        if (this.config.recordDom) {
+            this.domRecorder = createDomRecorder({
+                ...(typeof this.config.recordDom === 'object' ? this.config.recordDom : {}),
+                sanitizePatterns: this.config.sanitize,
+                onAction: addAction
+            });
+            this.cleanupFunctions.push(this.domRecorder);
+        }
+
+        // Start custom detectors
+        for (const name of this.customDetectors.keys()) {
+            this.startCustomDetector(name);
+        }
+
         // Install global error handlers
         this.installErrorHandlers();
     }
@@ -126,31 +267,65 @@ export class ErrorReplay {
             cleanup();
         }
         this.cleanupFunctions = [];
+        this.domRecorder = null;
+        this.realtimeDetector = null;
+
+        for (const name of Array.from(this.customCleanups.keys())) {
+            this.stopCustomDetector(name);
+        }
 
         // Remove error handlers
         this.removeErrorHandlers();
+
+        // Deliver reports still waiting for their dedupe window
+        if (this.throttle) {
+            this.throttle.flush();
+        }
     }
 
     /**
-     * Capture an error and generate a report
+     * Register a custom detector. If recording is active it starts immediately,
+     * otherwise on the next `start()`. Registering an existing name replaces it.
      */
-    capture(error: Error | unknown): ErrorReport {
-        const errorInfo = this.extractErrorInfo(error);
-        const context = this.getContext();
-        const actions = this.getActionsWithRelativeTime();
+    registerDetector(name: string, factory: DetectorFactory): void {
+        if (this.customCleanups.has(name)) {
+            this.stopCustomDetector(name);
+        }
 
-        const report: ErrorReport = {
-            reportId: this.generateReportId(),
-            timestamp: new Date().toISOString(),
-            error: errorInfo,
-            context,
-            actions
-        };
+        this.customDetectors.set(name, factory);
 
-        if (this.config.user) {
-            report.user = this.config.user;
+        if (this.isRunning) {
+            this.startCustomDetector(name);
         }
+    }
 
+    /**
+     * Stop and remove a custom detector
+     */
+    unregisterDetector(name: string): void {
+        this.stopCustomDetector(name);
+        this.customDetectors.delete(name);
+    }
+
+    /**
+     * Capture an error and generate a report.
+     * If a transport is configured, the report is also queued for delivery
+     * (after `beforeSend`, if set). With `uncaught`, the report goes through
+     * the same sampling, throttling and `onError` as uncaught errors.
+     */
+    capture(error: Error | unknown, options: CaptureOptions = {}): ErrorReport {
+        if (options.uncaught) {
+            if (typeof error === 'object' && error !== null) {
+                this.reportedErrors.add(error);
+            }
+            return this.handleError(error, options);
+        }
+
+        const report = this.createReport(error, options.snapshot);
+        if (options.componentStack) {
+            report.error.componentStack = options.componentStack;
+        }
+        this.dispatch(report, false);
         return report;
     }
 
@@ -158,7 +333,12 @@ export class ErrorReplay {
      * Get all recorded actions
      */
     getActions(): UserAction[] {
-        return this.buffer.getAll();
+        const actions = this.buffer.getAll();
+        if (!this.replayBuffer) {
+            return actions;
+        }
+        // Both buffers are in time order; the sort is stable, so ties keep it
+        return [...actions, ...this.replayBuffer.getAll()].sort((a, b) => a.timestamp - b.timestamp);
     }
 
     /**
@@ -166,6 +346,11 @@ export class ErrorReplay {
      */
     clear(): void {
         this.buffer.clear();
+        if (this.replayBuffer) {
+            this.replayBuffer.clear();
+            // Later mutations need a full snapshot to apply to
+            this.domRecorder?.checkout();
+        }
     }
 
     /**
@@ -174,6 +359,16 @@ export class ErrorReplay {
     cleanup(): void {
         this.stop();
         this.clear();
+
+        if (this.throttle) {
+            this.throttle.destroy();
+            this.throttle = null;
+        }
+
+        if (this.transport) {
+            this.transport.destroy();
+            this.transport = null;
+        }
     }
 
     /**
@@ -183,39 +378,240 @@ export class ErrorReplay {
         return this.isRunning;
     }
 
+    /**
+     * Check if this session was selected by `sampling.sessionSampleRate`
+     */
+    isSampled(): boolean {
+        return this.sessionSampled;
+    }
+
     /**
      * Get the number of recorded actions
      */
     actionCount(): number {
-        return this.buffer.size();
+        return this.buffer.size() + (this.replayBuffer?.size() ?? 0);
     }
 
     // ============================================
     // Private Methods
     // ============================================
 
+    // Add action to buffer, after the beforeAction hook. Returns the stored action.
+    private addAction = (action: UserAction): UserAction | null => {
+        const { beforeAction } = this.config;
+        const store = (stored: UserAction) => {
+            const buffer = stored.type === 'replay' && this.replayBuffer ? this.replayBuffer : this.buffer;
+            buffer.add(stored);
+            return stored;
+        };
+
+        if (!beforeAction) {
+            return store(action);
+        }
+
+        try {
+            const result = beforeAction(action);
+            return result ? store(result) : null;
+        } catch (error) {
+            console.warn('ErrorReplay: beforeAction threw, action dropped', error);
+            return null;
+        }
+    };
+
+    private startCustomDetector(name: string): void {
+        const factory = this.customDetectors.get(name);
+        if (!factory) {
+            return;
+        }
+
+        const context: DetectorContext = {
+            emit: (actionName, data) => {
+                const action: CustomAction = {
+                    type: 'custom',
+                    name: actionName,
+                    ...getActionMetadata()
+                };
+                if (data !== undefined) {
+                    action.data = sanitizeData(data, this.config.sanitize);
+                }
+                this.addAction(action);
+            },
+            captureComponents: this.config.captureComponents !== false,
+            sanitizePatterns: this.config.sanitize
+        };
+
+        try {
+            this.customCleanups.set(name, factory(context));
+        } catch (error) {
+            console.warn(`ErrorReplay: detector "${name}" failed to start`, error);
+        }
+    }
+
+    private stopCustomDetector(name: string): void {
+        const cleanup = this.customCleanups.get(name);
+        if (!cleanup) {
+            return;
+        }
+
+        this.customCleanups.delete(name);
+        try {
+            cleanup();
+        } catch (error) {
+            console.warn(`ErrorReplay: detector "${name}" failed to stop`, error);
+        }
+    }
+
     private installErrorHandlers(): void {
         // Global error handler
         this.errorHandler = (event: ErrorEvent) => {
-            const report = this.capture(event.error || event.message);
-            if (this.config.onError) {
-                this.config.onError(report);
+            // Failed scripts, images etc. carry no error - the resource detector records them
+            if (event.target !== window && event.target !== null) {
+                return;
             }
-            // Clear buffer after error so next error only has actions since this one
-            this.buffer.clear();
+            const error = event.error || event.message;
+            // React dev builds rethrow errors caught by a boundary to the window
+            // before componentDidCatch runs, so give the boundary a chance first
+            queueMicrotask(() => this.handleUncaughtError(error));
         };
         window.addEventListener('error', this.errorHandler);
 
         // Unhandled promise rejection handler
         this.rejectionHandler = (event: PromiseRejectionEvent) => {
-            const report = this.capture(event.reason);
-            if (this.config.onError) {
-                this.config.onError(report);
-            }
-            // Clear buffer after error so next error only has actions since this one
-            this.buffer.clear();
+            this.handleUncaughtError(event.reason);
         };
         window.addEventListener('unhandledrejection', this.rejectionHandler);
+
+        // Deliver throttled reports before the page goes away. With a transport
+        // this already happened, just before its beacon flush.
+        if (this.throttle) {
+            const throttle = this.throttle;
+            this.pageHideHandler = () => throttle.flush();
+            window.addEventListener('pagehide', this.pageHideHandler);
+        }
+    }
+
+    private handleUncaughtError(error: unknown): void {
+        if (typeof error === 'object' && error !== null && this.reportedErrors.has(error)) {
+            return;
+        }
+        this.handleError(error);
+    }
+
+    private handleError(error: Error | unknown, options: CaptureOptions = {}): ErrorReport {
+        // Snapshot is taken after sampling, so dropped reports cost nothing extra
+        const report = this.createReport(error, false);
+        if (options.componentStack) {
+            report.error.componentStack = options.componentStack;
+        }
+
+        // Report-level sampling
+        if (this.config.sampling) {
+            const { rate, rule } = getReportSampleRate(report, this.config.sampling);
+            if (!isSampled(rate)) {
+                this.clear();
+                return report;
+            }
+            report.sampling = { sessionRate: this.sessionSampleRate, reportRate: rate };
+            if (rule !== undefined) {
+                report.sampling.rule = rule;
+            }
+        }
+
+        if (options.snapshot ?? this.config.domSnapshot) {
+            this.attachSnapshot(report);
+        }
+
+        if (this.throttle) {
+            this.throttle.submit(report);
+        } else {
+            this.dispatch(report, true);
+        }
+        // Clear buffer after error so next error only has actions since this one
+        this.clear();
+        return report;
+    }
+
+    /**
+     * Run the beforeSend hook, then pass the report to onError (if requested)
+     * and the transport. Stays synchronous unless the hook returns a promise.
+     */
+    private dispatch(report: ErrorReport, notifyOnError: boolean): void {
+        const deliver = (result: ErrorReport | null) => {
+            if (!result) {
+                return;
+            }
+            if (notifyOnError && this.config.onError) {
+                this.config.onError(result);
+            }
+            if (this.transport) {
+                this.transport.send(result);
+            }
+        };
+
+        const { beforeSend } = this.config;
+        if (!beforeSend) {
+            deliver(report);
+            return;
+        }
+
+        let result: ReturnType<typeof beforeSend>;
+        try {
+            result = beforeSend(report);
+        } catch (error) {
+            console.warn('ErrorReplay: beforeSend threw, report dropped', error);
+            return;
+        }
+
+        if (result instanceof Promise) {
+            result.then(deliver, error => {
+                console.warn('ErrorReplay: beforeSend rejected, report dropped', error);
+            });
+        } else {
+            deliver(result);
+        }
+    }
+
+    private createReport(error: Error | unknown, snapshot: boolean = Boolean(this.config.domSnapshot)): ErrorReport {
+        const errorInfo = this.extractErrorInfo(error);
+        const context = this.getContext();
+        // Message counts since the last summary belong in this report
+        this.realtimeDetector?.flush();
+        const actions = this.getActionsWithRelativeTime();
+
+        const report: ErrorReport = {
+            reportId: this.generateReportId(),
+            timestamp: new Date().toISOString(),
+            fingerprint: getErrorFingerprint(errorInfo),
+            occurrences: 1,
+            error: errorInfo,
+            context,
+            actions
+        };
+
+        if (this.config.user) {
+            report.user = this.config.user;
+        }
+
+        if (this.config.sampling) {
+            report.sampling = { sessionRate: this.sessionSampleRate, reportRate: 1 };
+        }
+
+        if (snapshot) {
+            this.attachSnapshot(report);
+        }
+
+        return report;
+    }
+
+    private attachSnapshot(report: ErrorReport): void {
+        try {
+            report.snapshot = captureDomSnapshot({
+                ...(typeof this.config.domSnapshot === 'object' ? this.config.domSnapshot : {}),
+                sanitizePatterns: this.config.sanitize
+            });
+        } catch {
+            // A broken page shouldn't prevent the report itself
+        }
     }
 
     private removeErrorHandlers(): void {
@@ -227,15 +623,24 @@ export class ErrorReplay {
             window.removeEventListener('unhandledrejection', this.rejectionHandler);
             this.rejectionHandler = null;
         }
+        if (this.pageHideHandler) {
+            window.removeEventListener('pagehide', this.pageHideHandler);
+            this.pageHideHandler = null;
+        }
     }
 
     private extractErrorInfo(error: Error | unknown): ErrorInfo {
         if (error instanceof Error) {
-            return {
+            const info: ErrorInfo = {
                 message: error.message,
                 type: error.constructor.name,
                 stack: error.stack
             };
+            const frames = parseStack(error.stack, this.config.stackTrace);
+            if (frames.length > 0) {
+                info.frames = frames;
+            }
+            return info;
         }
 
         if (typeof error === 'string') {
@@ -265,7 +670,7 @@ export class ErrorReplay {
     }
 
     private getActionsWithRelativeTime(): ActionWithRelativeTime[] {
-        const actions = this.buffer.getAll();
+        const actions = this.getActions();
         const now = Date.now();
 
         return actions.map(action => ({
@@ -311,6 +716,31 @@ export class ErrorReplay {
 // Export types
 export * from './types';
 export { CircularBuffer } from './circular-buffer';
+export { createWebhookTransport } from './transport/webhook-transport';
+export type { Transport } from './transport/webhook-transport';
+export { createOfflineQueue } from './transport/offline-queue';
+export type { OfflineQueue } from './transport/offline-queue';
+export { getErrorFingerprint } from './utils/fingerprint';
+export { parseStack } from './utils/stack-parser';
+export { formatSlackMessage } from './formatters/slack';
+export type { SlackMessage, SlackBlock, SlackTextObject } from './formatters/slack';
+export { formatDiscordMessage } from './formatters/discord';
+export type { DiscordMessage, DiscordEmbed, DiscordEmbedField } from './formatters/discord';
+export { formatJiraIssue } from './formatters/jira';
+export type { JiraIssueFields, AdfDocument, AdfNode } from './formatters/jira';
+export { formatGitHubIssue } from './formatters/github';
+export type { GitHubIssue } from './formatters/github';
+export type { FormatterOptions } from './formatters/shared';
+export { toPlaywrightScript } from './generators/playwright';
+export { toCypressSpec } from './generators/cypress';
+export type { GeneratorOptions } from './generators/shared';
+export { renderReportHtml } from './renderers/html';
+export type { HtmlRenderOptions } from './renderers/html';
+export { formatReportText } from './renderers/text';
+export { formatReportMarkdown } from './renderers/markdown';
+export type { TimelineRenderOptions } from './renderers/timeline';
+export { createReplayPlayer } from './replay/player';
+export type { ReplayPlayer, ReplayPlayerOptions } from './replay/player';
 
 // Default export
 export default ErrorReplay;
@@ -0,0 +1,12 @@
+/**
+ * Error Replay - Node entry
+ *
+ * Server-side helpers for processing reports. Import from
+ * 'error-replay/node'; they are kept out of the browser entry because
+ * they use Node's file system.
+ */
+
+export { symbolicate } from './symbolicate';
+export type { SymbolicateOptions } from './symbolicate';
+export { parseSourceMap } from '../utils/source-map';
+export type { SourceMap, RawSourceMap, OriginalPosition } from '../utils/source-map';
@@ -0,0 +1,170 @@
+/**
+ * Symbolicate
+ *
+ * Rewrites report stacks from minified bundle positions to original
+ * files, lines and function names, using source maps read from a local
+ * directory. Runs in Node only; nothing is fetched over the network.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { ErrorReport, StackFrame, StackFrameContext, StackTraceConfig } from '../types';
+import { parseStack, isInAppFile, formatFrame } from '../utils/stack-parser';
+import { parseSourceMap, SourceMap, OriginalPosition } from '../utils/source-map';
+
+export interface SymbolicateOptions {
+    /** Lines of original source kept before and after a frame's line (default: 3) */
+    contextLines?: number;
+    /** Number of top in-app frames that get source context (default: 3) */
+    contextFrames?: number;
+    /** Classifies the original files as app or library code, as on the client */
+    stackTrace?: StackTraceConfig;
+}
+
+interface MappedFrame {
+    map: SourceMap;
+    position: OriginalPosition;
+}
+
+const MAX_CONTEXT_LINE_LENGTH = 200;
+
+/**
+ * Get the map file names to try for a frame's file, relative to the
+ * source map directory: the URL path first, then the bare file name
+ */
+function getMapCandidates(file: string): string[] {
+    let pathname = file;
+    try {
+        pathname = new URL(file).pathname;
+    } catch {
+        // A plain file path
+    }
+    const relative = pathname.replace(/[?#].*$/, '').replace(/^\/+/, '');
+    if (!relative) {
+        return [];
+    }
+    return Array.from(new Set([`${relative}.map`, `${path.posix.basename(relative)}.map`]));
+}
+
+/**
+ * Create a loader that finds, parses and caches the source map of a file
+ */
+function createMapLoader(sourceMapDir: string): (file: string) => Promise<SourceMap | null> {
+    const root = path.resolve(sourceMapDir);
+    const cache = new Map<string, Promise<SourceMap | null>>();
+
+    const load = async (file: string): Promise<SourceMap | null> => {
+        for (const candidate of getMapCandidates(file)) {
+            const mapPath = path.resolve(root, candidate);
+            // Frame files come from clients, so never read outside the directory
+            if (!mapPath.startsWith(root + path.sep)) {
+                continue;
+            }
+            try {
+                return parseSourceMap(await fs.readFile(mapPath, 'utf8'));
+            } catch {
+                // Missing or invalid map, try the next candidate
+            }
+        }
+        return null;
+    };
+
+    return file => {
+        const key = file.replace(/[?#].*$/, '');
+        let map = cache.get(key);
+        if (!map) {
+            map = load(key);
+            cache.set(key, map);
+        }
+        return map;
+    };
+}
+
+function getContext(content: string, line: number, contextLines: number): StackFrameContext | undefined {
+    const lines = content.split(/\r?\n/).map(text => text.slice(0, MAX_CONTEXT_LINE_LENGTH));
+    const index = line - 1;
+    if (index < 0 || index >= lines.length) {
+        return undefined;
+    }
+    return {
+        pre: lines.slice(Math.max(0, index - contextLines), index),
+        line: lines[index],
+        post: lines.slice(index + 1, index + 1 + contextLines)
+    };
+}
+
+/**
+ * Rewrite a report's stack and frames to original source positions.
+ * Frames without a matching map in `sourceMapDir` are kept as they are.
+ * Returns a new report; the fingerprint is left unchanged so it still
+ * matches reports that were not symbolicated.
+ */
+export async function symbolicate(
+    report: ErrorReport,
+    sourceMapDir: string,
+    options: SymbolicateOptions = {}
+): Promise<ErrorReport> {
+    const { contextLines = 3, contextFrames = 3, stackTrace } = options;
+    const frames = report.error.frames ?? parseStack(report.error.stack, stackTrace);
+    const loadMap = createMapLoader(sourceMapDir);
+
+    const mapped = await Promise.all(frames.map(async (frame): Promise<MappedFrame | null> => {
+        if (!frame.file || frame.line === undefined) {
+            return null;
+        }
+        const map = await loadMap(frame.file);
+        // Stack columns are 1-based, source map columns 0-based
+        const position = map?.originalPositionFor(frame.line, (frame.column ?? 1) - 1);
+        return map && position ? { map, position } : null;
+    }));
+
+    if (!mapped.some(Boolean)) {
+        return report;
+    }
+
+    const symbolicated = frames.map((frame, index): StackFrame => {
+        const current = mapped[index];
+        if (!current) {
+            return frame;
+        }
+        const { source, line, column } = current.position;
+        const result: StackFrame = {
+            ...frame,
+            file: source,
+            line,
+            column: column + 1,
+            inApp: isInAppFile(source, stackTrace)
+        };
+        // The name mapped at a call site is the function being called, so
+        // a frame's original name comes from the frame that called it
+        const callerName = mapped[index + 1]?.position.name;
+        if (callerName) {
+            result.function = callerName;
+        }
+        return result;
+    });
+
+    let withContext = 0;
+    symbolicated.forEach((frame, index) => {
+        const current = mapped[index];
+        if (withContext >= contextFrames || !frame.inApp || !current) {
+            return;
+        }
+        withContext++;
+        const content = current.map.sourceContentFor(current.position.source);
+        const context = content ? getContext(content, current.position.line, contextLines) : undefined;
+        if (context) {
+            frame.context = context;
+        }
+    });
+
+    const { type, message } = report.error;
+    return {
+        ...report,
+        error: {
+            ...report.error,
+            stack: [`${type}: ${message}`, ...symbolicated.map(formatFrame)].join('\n'),
+            frames: symbolicated
+        }
+    };
+}
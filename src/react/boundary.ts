@@ -0,0 +1,131 @@
+/**
+ * React Error Boundary
+ *
+ * Captures errors thrown while rendering, with React's component stack,
+ * and shows a fallback UI until the boundary is reset.
+ */
+
+import { Component, ErrorInfo as ReactErrorInfo, ReactNode, createContext, createElement, useContext, useState } from 'react';
+import type { ErrorReplay } from '../index';
+import { ErrorReport } from '../types';
+
+export interface ErrorReplayFallbackProps {
+    error: unknown;
+    /** Clear the error and render the children again */
+    resetError: () => void;
+}
+
+export interface ErrorReplayBoundaryProps {
+    replay: ErrorReplay;
+    /** Rendered instead of the children after an error (default: nothing) */
+    fallback?: ReactNode | ((props: ErrorReplayFallbackProps) => ReactNode);
+    /** Called after the boundary is reset, to clear the state that caused the error */
+    onReset?: () => void;
+    /** Reset the boundary when any of these values change */
+    resetKeys?: unknown[];
+    children?: ReactNode;
+}
+
+interface BoundaryState {
+    error: { value: unknown } | null;
+}
+
+interface BoundaryContextValue {
+    getReplay: () => ErrorReplay;
+    resetBoundary: () => void;
+}
+
+export interface UseErrorReplayResult {
+    replay: ErrorReplay;
+    /**
+     * Report an error that React doesn't catch (event handlers, async
+     * code) like an uncaught error, without showing the fallback
+     */
+    captureError: (error: unknown) => ErrorReport;
+    /** Show the nearest boundary's fallback for an error, reporting it with the component stack */
+    showBoundary: (error: unknown) => void;
+    /** Reset the nearest boundary */
+    resetBoundary: () => void;
+}
+
+const BoundaryContext = createContext<BoundaryContextValue | null>(null);
+
+function haveKeysChanged(previous: unknown[] = [], next: unknown[] = []): boolean {
+    return previous.length !== next.length || previous.some((key, index) => !Object.is(key, next[index]));
+}
+
+/**
+ * Error boundary that reports render errors through `replay.capture()`,
+ * handled like uncaught errors (sampling, throttling, `onError`)
+ */
+export class ErrorReplayBoundary extends Component<ErrorReplayBoundaryProps, BoundaryState> {
+    state: BoundaryState = { error: null };
+
+    private contextValue: BoundaryContextValue = {
+        getReplay: () => this.props.replay,
+        resetBoundary: () => this.resetError()
+    };
+
+    static getDerivedStateFromError(error: unknown): BoundaryState {
+        return { error: { value: error } };
+    }
+
+    componentDidCatch(error: unknown, info: ReactErrorInfo): void {
+        this.props.replay.capture(error, {
+            componentStack: info.componentStack ?? undefined,
+            uncaught: true
+        });
+    }
+
+    componentDidUpdate(previousProps: ErrorReplayBoundaryProps, previousState: BoundaryState): void {
+        // Only reset for changes after the error, not the update that showed the fallback
+        if (this.state.error && previousState.error && haveKeysChanged(previousProps.resetKeys, this.props.resetKeys)) {
+            this.resetError();
+        }
+    }
+
+    resetError = (): void => {
+        if (!this.state.error) {
+            return;
+        }
+        this.setState({ error: null });
+        this.props.onReset?.();
+    };
+
+    render(): ReactNode {
+        const { error } = this.state;
+        const { fallback = null, children } = this.props;
+
+        if (error) {
+            return typeof fallback === 'function'
+                ? fallback({ error: error.value, resetError: this.resetError })
+                : fallback;
+        }
+
+        return createElement(BoundaryContext.Provider, { value: this.contextValue }, children);
+    }
+}
+
+/**
+ * Access the nearest `<ErrorReplayBoundary>` from a component
+ */
+export function useErrorReplay(): UseErrorReplayResult {
+    const context = useContext(BoundaryContext);
+    const [thrown, setThrown] = useState<{ value: unknown } | null>(null);
+
+    if (!context) {
+        throw new Error('useErrorReplay must be used inside <ErrorReplayBoundary>');
+    }
+    // Rethrown during render so the boundary catches it with a component stack
+    if (thrown) {
+        throw thrown.value;
+    }
+
+    const replay = context.getReplay();
+    return {
+        replay,
+        captureError: error => replay.capture(error, { uncaught: true }),
+        showBoundary: error => setThrown({ value: error }),
+        resetBoundary: context.resetBoundary
+    };
+}
@@ -0,0 +1,9 @@
+/**
+ * Error Replay - React entry
+ *
+ * Error boundary and hook for React apps. Import from 'error-replay/react';
+ * React is an optional peer dependency of the main package.
+ */
+
+export { ErrorReplayBoundary, useErrorReplay } from './boundary';
+export type { ErrorReplayBoundaryProps, ErrorReplayFallbackProps, UseErrorReplayResult } from './boundary';
@@ -0,0 +1,234 @@
+/**
+ * HTML Renderer
+ *
+ * Renders an ErrorReport into a single self-contained HTML page with inline
+ * styles and script, for attaching to tickets or opening locally.
+ */
+
+import { ErrorReport, ErrorInfo, ActionWithRelativeTime } from '../types';
+import { getErrorTitle, getContextEntries, getTimelineActions, getActionParts } from '../formatters/shared';
+import { formatFrame } from '../utils/stack-parser';
+
+export interface HtmlRenderOptions {
+    /** Page title (default: the error type and message) */
+    title?: string;
+    /** Include the raw report JSON in a collapsible section (default: true) */
+    includeJson?: boolean;
+}
+
+// Timeline colour per action type
+const TYPE_COLORS: Record<string, string> = {
+    click: '#2563eb',
+    input: '#7c3aed',
+    navigation: '#0891b2',
+    network: '#16a34a',
+    console: '#d97706',
+    realtime: '#db2777',
+    beacon: '#0d9488',
+    resource: '#dc2626',
+    scroll: '#4f46e5',
+    viewport: '#9333ea',
+    custom: '#64748b'
+};
+
+const STYLES = `
+* { box-sizing: border-box; }
+body { margin: 0; font: 14px/1.5 -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; color: #1e293b; background: #f1f5f9; }
+main { max-width: 1100px; margin: 0 auto; padding: 24px; }
+header { background: #fff; border-left: 4px solid #dc2626; border-radius: 6px; padding: 16px 20px; margin-bottom: 16px; }
+h1 { margin: 0 0 4px; font-size: 20px; color: #dc2626; word-break: break-word; }
+h2 { margin: 0 0 12px; font-size: 15px; text-transform: uppercase; letter-spacing: .04em; color: #475569; }
+pre { margin: 12px 0 0; padding: 12px; background: #0f172a; color: #e2e8f0; border-radius: 6px; overflow-x: auto; font: 12px/1.5 ui-monospace, Menlo, Consolas, monospace; }
+pre .lib { color: #64748b; }
+.meta { color: #64748b; font-size: 12px; }
+.panels { display: grid; grid-template-columns: repeat(auto-fit, minmax(300px, 1fr)); gap: 16px; margin-bottom: 16px; }
+section { background: #fff; border-radius: 6px; padding: 16px 20px; }
+dl { display: grid; grid-template-columns: max-content 1fr; gap: 4px 16px; margin: 0; }
+dt { font-weight: 600; color: #475569; }
+dd { margin: 0; word-break: break-all; }
+.filters { display: flex; flex-wrap: wrap; gap: 8px; align-items: center; margin-bottom: 12px; }
+.filters label { display: inline-flex; align-items: center; gap: 4px; padding: 2px 8px; border-radius: 12px; background: #f1f5f9; cursor: pointer; font-size: 12px; }
+.filters input[type="search"] { flex: 1; min-width: 160px; padding: 4px 8px; border: 1px solid #cbd5e1; border-radius: 4px; }
+table { width: 100%; border-collapse: collapse; font-size: 13px; }
+th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #e2e8f0; vertical-align: top; }
+th { color: #475569; font-weight: 600; }
+td.time { white-space: nowrap; font-variant-numeric: tabular-nums; color: #64748b; text-align: right; }
+td.details { word-break: break-word; }
+.badge { display: inline-block; padding: 1px 8px; border-radius: 10px; color: #fff; font-size: 11px; font-weight: 600; }
+.component { color: #7c3aed; font-family: ui-monospace, Menlo, Consolas, monospace; font-size: 12px; }
+.failed { color: #dc2626; font-weight: 600; }
+.muted { color: #94a3b8; }
+tr.hidden { display: none; }
+tr.error-row td { background: #fef2f2; color: #dc2626; font-weight: 600; }
+details { margin-top: 16px; }
+`;
+
+const SCRIPT = `
+(function () {
+    var boxes = document.querySelectorAll('[data-filter]');
+    var search = document.getElementById('search');
+    function apply() {
+        var enabled = {};
+        boxes.forEach(function (box) { enabled[box.getAttribute('data-filter')] = box.checked; });
+        var query = search.value.toLowerCase();
+        document.querySelectorAll('tr[data-type]').forEach(function (row) {
+            var visible = enabled[row.getAttribute('data-type')] !== false &&
+                (!query || row.textContent.toLowerCase().indexOf(query) !== -1);
+            row.classList.toggle('hidden', !visible);
+        });
+    }
+    boxes.forEach(function (box) { box.addEventListener('change', apply); });
+    search.addEventListener('input', apply);
+})();
+`;
+
+/**
+ * Escape text for use in HTML content and attributes
+ */
+function escapeHtml(value: unknown): string {
+    return String(value)
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+function renderList(entries: [string, string][]): string {
+    return '<dl>' + entries
+        .map(([label, value]) => `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd>`)
+        .join('') + '</dl>';
+}
+
+/**
+ * Render the details cell for an action
+ */
+function renderDetails(action: ActionWithRelativeTime): string {
+    const { summary, outcome, note, failed } = getActionParts(action);
+    const mark = (text: string) => failed ? `<span class="failed">${escapeHtml(text)}</span>` : escapeHtml(text);
+
+    // Actions without an outcome (console errors, realtime failures) mark the summary instead
+    const parts = [
+        outcome ? escapeHtml(summary) : mark(summary),
+        outcome ? mark(outcome) : '',
+        note ? `<span class="muted">${escapeHtml(note)}</span>` : ''
+    ];
+    return parts.filter(part => part).join(' ');
+}
+
+function renderComponent(action: ActionWithRelativeTime): string {
+    if (action.type !== 'click' && action.type !== 'input') {
+        return '';
+    }
+    if (!action.component) {
+        return '';
+    }
+    const path = action.type === 'click' && action.componentPath ? action.componentPath : action.component;
+    return `<span class="component" title="${escapeHtml(path)}">&lt;${escapeHtml(action.component)}&gt;</span>`;
+}
+
+function renderTimeline(report: ErrorReport): string {
+    const actions = getTimelineActions(report);
+    const types = Array.from(new Set(actions.map(action => action.type)));
+
+    const filters = types.map(type => {
+        const color = TYPE_COLORS[type] ?? TYPE_COLORS.custom;
+        return `<label><input type="checkbox" data-filter="${escapeHtml(type)}" checked>` +
+            `<span class="badge" style="background:${escapeHtml(color)}">${escapeHtml(type)}</span></label>`;
+    }).join('');
+
+    const rows = actions.map(action => {
+        const color = TYPE_COLORS[action.type] ?? TYPE_COLORS.custom;
+        return `<tr data-type="${escapeHtml(action.type)}">` +
+            `<td class="time">${escapeHtml(action.relativeTime)}</td>` +
+            `<td><span class="badge" style="background:${escapeHtml(color)}">${escapeHtml(action.type)}</span></td>` +
+            `<td class="details">${renderDetails(action)}</td>` +
+            `<td>${renderComponent(action)}</td>` +
+            `<td class="muted">${escapeHtml(action.page)}</td>` +
+            '</tr>';
+    }).join('\n');
+
+    const errorRow = `<tr class="error-row"><td class="time">0s</td><td>error</td>` +
+        `<td colspan="3">${escapeHtml(getErrorTitle(report))}</td></tr>`;
+
+    return `<section>
+<h2>Timeline (${actions.length} actions)</h2>
+<div class="filters">${filters}<input type="search" id="search" placeholder="Filter actions…"></div>
+<table>
+<thead><tr><th>Time</th><th>Type</th><th>Details</th><th>Component</th><th>Page</th></tr></thead>
+<tbody>
+${rows}
+${errorRow}
+</tbody>
+</table>
+</section>`;
+}
+
+/**
+ * Render the full stack trace, with library frames muted when parsed
+ */
+function renderStack(error: ErrorInfo): string {
+    if (!error.frames || error.frames.length === 0) {
+        return escapeHtml(error.stack);
+    }
+    const header = escapeHtml(`${error.type}: ${error.message}`);
+    const frames = error.frames.map(frame => frame.inApp
+        ? escapeHtml(formatFrame(frame))
+        : `<span class="lib">${escapeHtml(formatFrame(frame))}</span>`);
+    return [header, ...frames].join('\n');
+}
+
+/**
+ * Render an error report as a standalone HTML document
+ */
+export function renderReportHtml(report: ErrorReport, options: HtmlRenderOptions = {}): string {
+    const { includeJson = true } = options;
+    const title = options.title ?? getErrorTitle(report);
+
+    const stack = report.error.stack ? `<pre>${renderStack(report.error)}</pre>` : '';
+    const componentStack = report.error.componentStack
+        ? `<details><summary>Component stack</summary><pre>${escapeHtml(report.error.componentStack)}</pre></details>`
+        : '';
+
+    const userEntries: [string, string][] = report.user
+        ? Object.entries(report.user).map(([key, value]) => [
+            key,
+            typeof value === 'string' ? value : JSON.stringify(value)
+        ])
+        : [];
+    const userPanel = userEntries.length > 0
+        ? `<section><h2>User</h2>${renderList(userEntries)}</section>`
+        : '';
+
+    const json = includeJson
+        ? `<section><details><summary>Raw report JSON</summary><pre>${escapeHtml(JSON.stringify(report, null, 2))}</pre></details></section>`
+        : '';
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<main>
+<header>
+<h1>${escapeHtml(getErrorTitle(report))}</h1>
+<div class="meta">Report ${escapeHtml(report.reportId)} · ${escapeHtml(report.timestamp)}</div>
+${stack}
+${componentStack}
+</header>
+<div class="panels">
+<section><h2>Context</h2>${renderList(getContextEntries(report).filter(([label]) => label !== 'User' && label !== 'Session'))}</section>
+${userPanel}
+</div>
+${renderTimeline(report)}
+${json}
+</main>
+<script>${SCRIPT}</script>
+</body>
+</html>
+`;
+}
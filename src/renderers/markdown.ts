@@ -0,0 +1,85 @@
+/**
+ * Markdown Renderer
+ *
+ * Renders an ErrorReport as a Markdown timeline for pasting into chat
+ * and tickets.
+ */
+
+import { ErrorReport } from '../types';
+import { truncate, escapeCodeFence } from '../formatters/shared';
+import {
+    TimelineRenderOptions,
+    TimelineRow,
+    DEFAULT_WIDTH,
+    DEFAULT_STACK_LINES,
+    getTimelineGroups,
+    getStackLines
+} from './timeline';
+
+const TYPE_MARKERS: Record<string, string> = {
+    click: '🖱️',
+    input: '⌨️',
+    navigation: '🧭',
+    network: '🌐',
+    console: '💬',
+    realtime: '📡',
+    beacon: '📤',
+    resource: '📦',
+    scroll: '📜',
+    viewport: '📐',
+    custom: '🔹',
+    error: '💥'
+};
+
+/**
+ * Escape text for use inside a markdown table cell
+ */
+function escapeCell(text: string): string {
+    return text.replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/`/g, "'");
+}
+
+/**
+ * Render an error report as Markdown
+ */
+export function formatReportMarkdown(report: ErrorReport, options: TimelineRenderOptions = {}): string {
+    const {
+        width = DEFAULT_WIDTH,
+        color = false,
+        maxActions,
+        maxStackLines = DEFAULT_STACK_LINES
+    } = options;
+
+    const lines: string[] = [
+        `### ${escapeCell(`${report.error.type}: ${report.error.message}`.replace(/\s*\n\s*/g, ' '))}`,
+        ''
+    ];
+
+    const frames = getStackLines(report, maxStackLines).map(line => truncate(line, width));
+    if (frames.length > 0) {
+        lines.push('```', escapeCodeFence(frames.join('\n')), '```', '');
+    }
+
+    lines.push(`Report \`${report.reportId}\` · ${report.timestamp} · ${report.context.url}`, '');
+
+    const renderRow = (row: TimelineRow): string => {
+        const marker = color ? `${row.failed ? '🔴' : TYPE_MARKERS[row.type] ?? TYPE_MARKERS.custom} ` : '';
+        const details = escapeCell(truncate(row.details, width));
+        const formattedDetails = row.failed && !color ? `**${details}**` : details;
+        return `| ${row.time} | ${marker}${row.type} | ${formattedDetails} | ${row.component ? `\`${escapeCell(row.component)}\`` : ''} |`;
+    };
+
+    const groups = getTimelineGroups(report, maxActions);
+    if (groups.length === 0) {
+        lines.push('_No actions recorded_', '');
+    }
+    for (const group of groups) {
+        lines.push(`#### ${escapeCell(group.page)}`, '');
+        lines.push('| Time | Type | Details | Component |', '|---:|---|---|---|');
+        lines.push(...group.rows.map(renderRow));
+        lines.push('');
+    }
+
+    lines.push(`**0s — ${color ? `${TYPE_MARKERS.error} ` : ''}${escapeCell(report.error.type)} thrown**`);
+
+    return lines.join('\n');
+}
@@ -0,0 +1,118 @@
+/**
+ * Text Renderer
+ *
+ * Renders an ErrorReport as an aligned plain-text timeline for terminals
+ * and server logs, optionally with ANSI colours.
+ */
+
+import { ErrorReport } from '../types';
+import { truncate } from '../formatters/shared';
+import {
+    TimelineRenderOptions,
+    TimelineRow,
+    DEFAULT_WIDTH,
+    DEFAULT_STACK_LINES,
+    getTimelineGroups,
+    getStackLines
+} from './timeline';
+
+const ANSI = {
+    reset: '\u001b[0m',
+    bold: '\u001b[1m',
+    dim: '\u001b[2m',
+    red: '\u001b[31m',
+    green: '\u001b[32m',
+    yellow: '\u001b[33m',
+    blue: '\u001b[34m',
+    magenta: '\u001b[35m',
+    cyan: '\u001b[36m',
+    gray: '\u001b[90m',
+    brightRed: '\u001b[91m',
+    brightGreen: '\u001b[92m',
+    brightBlue: '\u001b[94m',
+    brightMagenta: '\u001b[95m',
+    brightCyan: '\u001b[96m'
+};
+
+const TYPE_COLORS: Record<string, string> = {
+    click: ANSI.blue,
+    input: ANSI.magenta,
+    navigation: ANSI.cyan,
+    network: ANSI.green,
+    console: ANSI.yellow,
+    realtime: ANSI.brightMagenta,
+    beacon: ANSI.brightCyan,
+    resource: ANSI.brightRed,
+    scroll: ANSI.brightBlue,
+    viewport: ANSI.brightGreen,
+    replay: ANSI.gray,
+    custom: ANSI.gray,
+    error: ANSI.red
+};
+
+/**
+ * Render an error report as plain text
+ */
+export function formatReportText(report: ErrorReport, options: TimelineRenderOptions = {}): string {
+    const {
+        width = DEFAULT_WIDTH,
+        color = false,
+        maxActions,
+        maxStackLines = DEFAULT_STACK_LINES
+    } = options;
+
+    const paint = (text: string, code: string) => (color && code && text ? code + text + ANSI.reset : text);
+
+    const lines: string[] = [];
+
+    // Error header
+    lines.push(paint(truncate(`${report.error.type}: ${report.error.message}`, width), ANSI.bold + ANSI.red));
+    for (const line of getStackLines(report, maxStackLines)) {
+        lines.push(paint(truncate(line, width), ANSI.dim));
+    }
+    lines.push(paint(truncate(`Report ${report.reportId} · ${report.timestamp} · ${report.context.url}`, width), ANSI.dim));
+
+    const groups = getTimelineGroups(report, maxActions);
+    const allRows = groups.flatMap(group => group.rows);
+    const errorRow: TimelineRow = {
+        time: '0s',
+        type: 'error',
+        details: `${report.error.type}: ${report.error.message}`.replace(/\s*\n\s*/g, ' '),
+        failed: true
+    };
+
+    const timeWidth = Math.max(errorRow.time.length, ...allRows.map(row => row.time.length));
+    const typeWidth = Math.max(errorRow.type.length, ...allRows.map(row => row.type.length));
+    const prefixWidth = 2 + timeWidth + 2 + typeWidth + 2;
+    const componentWidth = Math.max(0, ...allRows.map(row => row.component?.length ?? 0));
+    // Details fill the remaining width, leaving room for the component column
+    const detailsWidth = Math.max(10, width - prefixWidth - (componentWidth > 0 ? componentWidth + 2 : 0));
+
+    const renderRow = (row: TimelineRow): string => {
+        const time = paint(row.time.padStart(timeWidth), ANSI.dim);
+        const type = paint(row.type.padEnd(typeWidth), TYPE_COLORS[row.type] ?? TYPE_COLORS.custom);
+        const details = truncate(row.details, detailsWidth);
+        const paddedDetails = row.component ? details.padEnd(detailsWidth) : details;
+        const component = row.component
+            ? '  ' + paint(truncate(row.component, Math.max(0, width - prefixWidth - detailsWidth - 2)), ANSI.magenta)
+            : '';
+        return `  ${time}  ${type}  ${paint(paddedDetails, row.failed ? ANSI.red : '')}${component}`.trimEnd();
+    };
+
+    const heading = (page: string) => {
+        const label = `── ${truncate(page, Math.max(10, width - 6))} `;
+        return paint(label + '─'.repeat(Math.max(0, width - label.length)), ANSI.bold);
+    };
+
+    lines.push('');
+    if (allRows.length === 0) {
+        lines.push(paint('No actions recorded', ANSI.dim));
+    }
+    for (const group of groups) {
+        lines.push(heading(group.page));
+        lines.push(...group.rows.map(renderRow));
+    }
+    lines.push(renderRow(errorRow));
+
+    return lines.join('\n');
+}
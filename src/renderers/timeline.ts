@@ -0,0 +1,96 @@
+/**
+ * Timeline Helpers
+ *
+ * Shared row building for the plain-text and Markdown renderers.
+ */
+
+import { ErrorReport, ActionWithRelativeTime } from '../types';
+import { getTimelineActions, getActionParts } from '../formatters/shared';
+import { formatFrames } from '../utils/stack-parser';
+
+export interface TimelineRenderOptions {
+    /** Maximum line width (text) or details column width (Markdown) (default: 100) */
+    width?: number;
+    /**
+     * Highlight action types and failures. Text output uses ANSI colours,
+     * Markdown output uses emoji markers. (default: false)
+     */
+    color?: boolean;
+    /** Maximum number of most recent actions to show (default: all) */
+    maxActions?: number;
+    /** Maximum number of stack lines to show (default: 8) */
+    maxStackLines?: number;
+}
+
+export interface TimelineRow {
+    time: string;
+    type: string;
+    details: string;
+    component?: string;
+    /** Failed network request or console error */
+    failed: boolean;
+}
+
+export interface TimelineGroup {
+    /** Page the actions in this group happened on */
+    page: string;
+    rows: TimelineRow[];
+}
+
+export const DEFAULT_WIDTH = 100;
+export const DEFAULT_STACK_LINES = 8;
+
+/**
+ * Get the stack lines to display, without the V8 header line that repeats
+ * the error message
+ */
+export function getStackLines(report: ErrorReport, maxLines: number): string[] {
+    const { stack, frames, type, message } = report.error;
+    if (!stack) {
+        return [];
+    }
+    if (frames && frames.length > 0) {
+        return formatFrames(frames, maxLines);
+    }
+
+    let lines = stack.split('\n');
+    if (lines[0].startsWith(`${type}: ${message.split('\n')[0]}`) || lines[0] === type) {
+        lines = lines.slice(1);
+    }
+    lines = lines.filter(line => line.trim());
+
+    return lines.length > maxLines
+        ? [...lines.slice(0, maxLines), `    ... ${lines.length - maxLines} more`]
+        : lines;
+}
+
+/**
+ * Build timeline rows grouped by page. A new group starts whenever the
+ * page changes, so long navigations read as headed sections.
+ */
+export function getTimelineGroups(report: ErrorReport, maxActions?: number): TimelineGroup[] {
+    const timeline = getTimelineActions(report);
+    const actions = maxActions !== undefined ? timeline.slice(-maxActions) : timeline;
+    const groups: TimelineGroup[] = [];
+
+    for (const action of actions) {
+        let group = groups[groups.length - 1];
+        if (!group || group.page !== action.page) {
+            group = { page: action.page, rows: [] };
+            groups.push(group);
+        }
+
+        const { summary, outcome, note, failed } = getActionParts(action);
+        const details = [summary, outcome, note].filter(part => part).join('  ');
+        const component = (action.type === 'click' || action.type === 'input') ? action.component : undefined;
+        group.rows.push({
+            time: action.relativeTime,
+            type: action.type,
+            details: details.replace(/\s*\n\s*/g, ' '),
+            component: component ? `<${component}>` : undefined,
+            failed
+        });
+    }
+
+    return groups;
+}
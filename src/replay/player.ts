@@ -0,0 +1,279 @@
+/**
+ * Replay Player
+ *
+ * Rebuilds a recorded page inside a sandboxed iframe and steps through the
+ * recorded DOM events up to the moment of the error.
+ */
+
+import { ErrorReport, ReplayAction, ReplayEvent, SerializedNode, UserAction } from '../types';
+
+export interface ReplayPlayerOptions {
+    /** Playback speed multiplier for `play()` (default: 1) */
+    speed?: number;
+    /**
+     * Longest pause between two events during `play()`, in ms, so idle
+     * periods don't stall playback (default: 2000)
+     */
+    maxIdle?: number;
+    /** Called after each step with the timeline entry and its index */
+    onStep?: (action: UserAction, index: number) => void;
+    /** Called when playback reaches the end of the timeline */
+    onEnd?: () => void;
+}
+
+export interface ReplayPlayer {
+    /** The sandboxed iframe the page is rendered in */
+    readonly iframe: HTMLIFrameElement;
+    /** Number of entries in the timeline */
+    readonly length: number;
+    /** Index of the last applied entry, or -1 before the first snapshot */
+    position(): number;
+    /** Apply the next entry; returns false at the end of the timeline */
+    step(): boolean;
+    /** Jump to an entry, rebuilding the page if seeking backwards; -1 shows a blank page */
+    seek(index: number): void;
+    /** Play in real time (scaled by `speed`) until the end or `pause()` */
+    play(): void;
+    pause(): void;
+    /** Stop playback and remove the iframe */
+    destroy(): void;
+}
+
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
+
+/**
+ * Create a player for the actions of a report (or a list of actions).
+ * Playback starts at the first full snapshot in the timeline; earlier
+ * entries cannot be rendered and are skipped.
+ */
+export function createReplayPlayer(
+    container: HTMLElement,
+    source: ErrorReport | UserAction[],
+    options: ReplayPlayerOptions = {}
+): ReplayPlayer {
+    const { speed = 1, maxIdle = 2000, onStep, onEnd } = options;
+
+    const allActions: UserAction[] = Array.isArray(source) ? source : source.actions;
+    const firstSnapshot = allActions.findIndex(action => action.type === 'replay' && action.event.kind === 'snapshot');
+    const timeline = firstSnapshot === -1 ? [] : allActions.slice(firstSnapshot);
+
+    // No allow-scripts: nothing inside the replayed page can run
+    const iframe = document.createElement('iframe');
+    iframe.setAttribute('sandbox', 'allow-same-origin');
+    iframe.style.border = '0';
+    container.appendChild(iframe);
+
+    let nodes = new Map<number, Node>();
+    let index = -1;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const getDocument = (): Document => {
+        const doc = iframe.contentDocument;
+        if (!doc) {
+            throw new Error('Replay iframe is not attached to a document');
+        }
+        return doc;
+    };
+
+    const build = (node: SerializedNode, doc: Document): Node => {
+        if (node.kind === 'text') {
+            const text = doc.createTextNode(node.text);
+            nodes.set(node.id, text);
+            return text;
+        }
+
+        const element = node.svg
+            ? doc.createElementNS(SVG_NAMESPACE, node.tag)
+            : doc.createElement(node.tag);
+
+        for (const [name, value] of Object.entries(node.attributes)) {
+            try {
+                element.setAttribute(name, value);
+            } catch {
+                // Invalid attribute name in this document, skip it
+            }
+        }
+        if ('value' in node.attributes && (element instanceof HTMLTextAreaElement || element instanceof HTMLInputElement)) {
+            element.value = node.attributes.value;
+        }
+
+        for (const child of node.children) {
+            element.appendChild(build(child, doc));
+        }
+
+        nodes.set(node.id, element);
+        return element;
+    };
+
+    const scrollTo = (id: number | null, x: number, y: number) => {
+        if (id === null) {
+            iframe.contentWindow?.scrollTo(x, y);
+            return;
+        }
+        const element = nodes.get(id);
+        if (element instanceof Element) {
+            element.scrollLeft = x;
+            element.scrollTop = y;
+        }
+    };
+
+    const applyEvent = (event: ReplayEvent) => {
+        const doc = getDocument();
+
+        switch (event.kind) {
+            case 'snapshot': {
+                nodes = new Map();
+                const root = build(event.node, doc);
+                if (doc.documentElement) {
+                    doc.replaceChild(root, doc.documentElement);
+                } else {
+                    doc.appendChild(root);
+                }
+                iframe.width = String(event.viewport.width);
+                iframe.height = String(event.viewport.height);
+                scrollTo(null, event.scroll.x, event.scroll.y);
+                break;
+            }
+
+            case 'mutation':
+                for (const { parentId, id } of event.removes) {
+                    const parent = nodes.get(parentId);
+                    const node = nodes.get(id);
+                    if (parent && node && node.parentNode === parent) {
+                        parent.removeChild(node);
+                    }
+                    nodes.delete(id);
+                }
+                for (const { parentId, nextId, node } of event.adds) {
+                    const parent = nodes.get(parentId);
+                    if (!parent) continue;
+                    const next = nextId !== null ? nodes.get(nextId) : null;
+                    parent.insertBefore(build(node, doc), next && next.parentNode === parent ? next : null);
+                }
+                for (const { id, text } of event.texts) {
+                    const node = nodes.get(id);
+                    if (node) node.textContent = text;
+                }
+                for (const { id, name, value } of event.attributes) {
+                    const element = nodes.get(id);
+                    if (!(element instanceof Element)) continue;
+                    try {
+                        if (value === null) element.removeAttribute(name);
+                        else element.setAttribute(name, value);
+                    } catch {
+                        // Invalid attribute name in this document, skip it
+                    }
+                }
+                break;
+
+            case 'scroll':
+                scrollTo(event.id, event.x, event.y);
+                break;
+
+            case 'viewport':
+                iframe.width = String(event.width);
+                iframe.height = String(event.height);
+                break;
+
+            case 'input': {
+                const element = nodes.get(event.id);
+                if (element instanceof HTMLInputElement && event.checked !== undefined) {
+                    element.checked = event.checked;
+                } else if (
+                    (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement || element instanceof HTMLSelectElement) &&
+                    event.value !== undefined
+                ) {
+                    element.value = event.value;
+                }
+                break;
+            }
+        }
+    };
+
+    const step = (): boolean => {
+        if (index >= timeline.length - 1) {
+            return false;
+        }
+        index++;
+        const action = timeline[index];
+        if (action.type === 'replay') {
+            applyEvent((action as ReplayAction).event);
+        }
+        onStep?.(action, index);
+        return true;
+    };
+
+    const pause = () => {
+        if (timer !== null) {
+            clearTimeout(timer);
+            timer = null;
+        }
+    };
+
+    const seek = (target: number) => {
+        pause();
+        const clamped = Math.max(-1, Math.min(target, timeline.length - 1));
+        if (clamped === -1) {
+            // Before the first snapshot there is nothing to show
+            const doc = getDocument();
+            if (doc.documentElement) {
+                doc.removeChild(doc.documentElement);
+            }
+            nodes = new Map();
+            index = -1;
+            return;
+        }
+        if (clamped < index) {
+            // Rebuild from the last snapshot at or before the target
+            let start = clamped;
+            while (start > 0 && !(timeline[start].type === 'replay' && (timeline[start] as ReplayAction).event.kind === 'snapshot')) {
+                start--;
+            }
+            index = start - 1;
+        }
+        while (index < clamped) {
+            step();
+        }
+    };
+
+    const play = () => {
+        pause();
+        const scheduleNext = () => {
+            if (!step()) {
+                timer = null;
+                onEnd?.();
+                return;
+            }
+            const current = timeline[index];
+            const next = timeline[index + 1];
+            if (!next) {
+                timer = null;
+                onEnd?.();
+                return;
+            }
+            const delay = Math.min(Math.max(0, next.timestamp - current.timestamp), maxIdle) / speed;
+            timer = setTimeout(scheduleNext, delay);
+        };
+        scheduleNext();
+    };
+
+    // Show the page as it was at the start of the timeline
+    if (timeline.length > 0) {
+        step();
+    }
+
+    return {
+        iframe,
+        length: timeline.length,
+        position: () => index,
+        step,
+        seek,
+        play,
+        pause,
+        destroy() {
+            pause();
+            iframe.remove();
+            nodes.clear();
+        }
+    };
+}
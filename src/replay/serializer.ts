@@ -0,0 +1,172 @@
+/**
+ * DOM Serializer
+ *
+ * Converts live DOM nodes into SerializedNode trees with stable ids, for
+ * the DOM recorder. Sensitive values are masked with the sanitizer rules.
+ */
+
+import { SerializedNode } from '../types';
+import { shouldSanitize, containsSensitiveData } from '../utils/sanitizer';
+
+export interface NodeMirror {
+    /** Get the id of a node that has been serialized before */
+    getId(node: Node): number | undefined;
+    /** Get the id of a node, assigning a new one if needed */
+    getOrCreateId(node: Node): number;
+}
+
+export interface SerializeOptions {
+    mirror: NodeMirror;
+    blockAttribute: string;
+    sanitizePatterns: string[];
+}
+
+const SANITIZED = '[SANITIZED]';
+
+// Elements whose content is never recorded
+const EMPTY_TAGS = ['script', 'noscript', 'template', 'iframe'];
+
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
+
+/**
+ * Create a mirror that assigns incrementing ids to DOM nodes
+ */
+export function createNodeMirror(): NodeMirror {
+    const ids = new WeakMap<Node, number>();
+    let nextId = 1;
+
+    return {
+        getId(node: Node) {
+            return ids.get(node);
+        },
+        getOrCreateId(node: Node) {
+            let id = ids.get(node);
+            if (id === undefined) {
+                id = nextId++;
+                ids.set(node, id);
+            }
+            return id;
+        }
+    };
+}
+
+/**
+ * Check if a node is inside an element with the block attribute
+ */
+export function isBlocked(node: Node, blockAttribute: string): boolean {
+    const element = node.nodeType === Node.ELEMENT_NODE ? node as Element : node.parentElement;
+    return Boolean(element?.closest(`[${blockAttribute}]`));
+}
+
+/**
+ * Check if a form control's value must be masked
+ */
+export function isSensitiveControl(element: Element, sanitizePatterns: string[]): boolean {
+    return (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement)
+        && shouldSanitize(element, sanitizePatterns);
+}
+
+/**
+ * Get an attribute value safe to record, or null if it should be skipped
+ */
+export function getSafeAttribute(element: Element, name: string, value: string, sanitizePatterns: string[]): string | null {
+    // Inline event handlers never run in a replay
+    if (name.startsWith('on')) {
+        return null;
+    }
+    if (name === 'value' && isSensitiveControl(element, sanitizePatterns)) {
+        return value ? SANITIZED : value;
+    }
+    return containsSensitiveData(value) ? SANITIZED : value;
+}
+
+/**
+ * Get a text value safe to record
+ */
+export function getSafeText(text: string): string {
+    return containsSensitiveData(text) ? SANITIZED : text;
+}
+
+/**
+ * Serialize a node and its subtree. Returns null for nodes that are not
+ * recorded (comments, processing instructions).
+ */
+export function serializeNode(node: Node, options: SerializeOptions): SerializedNode | null {
+    const { mirror, blockAttribute, sanitizePatterns } = options;
+
+    if (node.nodeType === Node.TEXT_NODE) {
+        const parentTag = node.parentElement?.localName;
+        return {
+            id: mirror.getOrCreateId(node),
+            kind: 'text',
+            text: parentTag === 'script' ? '' : getSafeText(node.textContent ?? '')
+        };
+    }
+
+    if (node.nodeType !== Node.ELEMENT_NODE) {
+        return null;
+    }
+
+    const element = node as Element;
+    const tag = element.localName;
+    const attributes: Record<string, string> = {};
+
+    for (const attribute of Array.from(element.attributes)) {
+        const value = getSafeAttribute(element, attribute.name, attribute.value, sanitizePatterns);
+        if (value !== null) {
+            attributes[attribute.name] = value;
+        }
+    }
+
+    // Current form state is not reflected in attributes
+    if (element instanceof HTMLInputElement) {
+        if (element.type === 'checkbox' || element.type === 'radio') {
+            if (element.checked) attributes.checked = '';
+            else delete attributes.checked;
+        } else if (element.type !== 'file' && element.value) {
+            attributes.value = getSafeAttribute(element, 'value', element.value, sanitizePatterns) ?? '';
+        }
+    } else if (element instanceof HTMLTextAreaElement) {
+        // The player applies this to the textarea's value; the default text is masked too
+        attributes.value = getSafeAttribute(element, 'value', element.value, sanitizePatterns) ?? '';
+        if (isSensitiveControl(element, sanitizePatterns)) {
+            return { id: mirror.getOrCreateId(element), kind: 'element', tag, attributes, children: [] };
+        }
+    } else if (element instanceof HTMLOptionElement && element.selected) {
+        attributes.selected = '';
+    }
+
+    const serialized: SerializedNode = {
+        id: mirror.getOrCreateId(element),
+        kind: 'element',
+        tag,
+        attributes,
+        children: []
+    };
+    if (element.namespaceURI === SVG_NAMESPACE) {
+        serialized.svg = true;
+    }
+
+    // Blocked elements keep their size but none of their content
+    if (element.hasAttribute(blockAttribute)) {
+        const rect = element.getBoundingClientRect();
+        serialized.attributes = {
+            [blockAttribute]: '',
+            style: `width:${Math.round(rect.width)}px;height:${Math.round(rect.height)}px`
+        };
+        return serialized;
+    }
+
+    if (EMPTY_TAGS.includes(tag)) {
+        return serialized;
+    }
+
+    for (const child of Array.from(element.childNodes)) {
+        const serializedChild = serializeNode(child, options);
+        if (serializedChild) {
+            serialized.children.push(serializedChild);
+        }
+    }
+
+    return serialized;
+}
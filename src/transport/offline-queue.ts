@@ -0,0 +1,218 @@
+/**
+ * Offline Queue
+ *
+ * Persists undelivered reports in IndexedDB (falling back to localStorage)
+ * so they can be delivered once the browser is back online.
+ */
+
+import { ErrorReport, OfflineQueueConfig } from '../types';
+
+export interface OfflineQueue {
+    /** Store a report. Storing the same reportId twice keeps a single copy. */
+    add(report: ErrorReport): Promise<void>;
+    /**
+     * Return every stored report that has not expired, oldest first.
+     * Reports stay stored until `remove` is called, so none are lost if
+     * the page closes while they are being sent.
+     */
+    getAll(): Promise<ErrorReport[]>;
+    /** Remove a report once it has been delivered or rejected */
+    remove(reportId: string): Promise<void>;
+    /** Number of stored reports */
+    size(): Promise<number>;
+}
+
+interface StoredReport {
+    reportId: string;
+    storedAt: number;
+    report: ErrorReport;
+}
+
+interface QueueStorage {
+    getAll(): Promise<StoredReport[]>;
+    put(entry: StoredReport): Promise<void>;
+    remove(reportIds: string[]): Promise<void>;
+}
+
+const DEFAULT_STORAGE_KEY = 'error-replay-queue';
+const STORE_NAME = 'reports';
+
+/**
+ * Create a persistent queue for reports that could not be delivered
+ */
+export function createOfflineQueue(config: OfflineQueueConfig = {}): OfflineQueue {
+    const {
+        maxSize = 50,
+        maxAge = 24 * 60 * 60 * 1000,
+        storageKey = DEFAULT_STORAGE_KEY
+    } = config;
+
+    let storagePromise: Promise<QueueStorage> | null = null;
+    const getStorage = (): Promise<QueueStorage> => {
+        if (!storagePromise) {
+            storagePromise = openIndexedDBStorage(storageKey)
+                .catch(() => createLocalStorageStorage(storageKey));
+        }
+        return storagePromise;
+    };
+
+    const isExpired = (entry: StoredReport, now: number) => now - entry.storedAt > maxAge;
+
+    return {
+        async add(report: ErrorReport) {
+            try {
+                const storage = await getStorage();
+                const now = Date.now();
+                await storage.put({ reportId: report.reportId, storedAt: now, report });
+
+                // Enforce expiry and size limit, dropping the oldest reports first
+                const entries = (await storage.getAll()).sort((a, b) => a.storedAt - b.storedAt);
+                const expired = entries.filter(entry => isExpired(entry, now));
+                const live = entries.filter(entry => !isExpired(entry, now));
+                const overflow = live.slice(0, Math.max(0, live.length - maxSize));
+                const toRemove = [...expired, ...overflow].map(entry => entry.reportId);
+
+                if (toRemove.length > 0) {
+                    await storage.remove(toRemove);
+                }
+            } catch {
+                // Storage is unavailable (private mode, quota exceeded) - drop the report
+            }
+        },
+
+        async getAll() {
+            try {
+                const storage = await getStorage();
+                const now = Date.now();
+                return (await storage.getAll())
+                    .filter(entry => !isExpired(entry, now))
+                    .sort((a, b) => a.storedAt - b.storedAt)
+                    .map(entry => entry.report);
+            } catch {
+                return [];
+            }
+        },
+
+        async remove(reportId: string) {
+            try {
+                const storage = await getStorage();
+                await storage.remove([reportId]);
+            } catch {
+                // Storage is unavailable - the report expires on its own
+            }
+        },
+
+        async size() {
+            try {
+                const storage = await getStorage();
+                return (await storage.getAll()).length;
+            } catch {
+                return 0;
+            }
+        }
+    };
+}
+
+// ============================================
+// Storage Backends
+// ============================================
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * Wait for an IndexedDB transaction to commit
+ */
+function transactionDone(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+}
+
+function openIndexedDBStorage(name: string): Promise<QueueStorage> {
+    return new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error('IndexedDB is not available'));
+            return;
+        }
+
+        const request = indexedDB.open(name, 1);
+        request.onupgradeneeded = () => {
+            request.result.createObjectStore(STORE_NAME, { keyPath: 'reportId' });
+        };
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => {
+            const db = request.result;
+
+            resolve({
+                async getAll() {
+                    const tx = db.transaction(STORE_NAME, 'readonly');
+                    return promisify(tx.objectStore(STORE_NAME).getAll() as IDBRequest<StoredReport[]>);
+                },
+
+                async put(entry) {
+                    const tx = db.transaction(STORE_NAME, 'readwrite');
+                    tx.objectStore(STORE_NAME).put(entry);
+                    await transactionDone(tx);
+                },
+
+                async remove(reportIds) {
+                    const tx = db.transaction(STORE_NAME, 'readwrite');
+                    const store = tx.objectStore(STORE_NAME);
+                    for (const id of reportIds) {
+                        store.delete(id);
+                    }
+                    await transactionDone(tx);
+                }
+            });
+        };
+    });
+}
+
+function createLocalStorageStorage(key: string): QueueStorage {
+    const read = (): Record<string, StoredReport> => {
+        try {
+            const raw = localStorage.getItem(key);
+            return raw ? JSON.parse(raw) : {};
+        } catch {
+            return {};
+        }
+    };
+
+    const write = (entries: Record<string, StoredReport>) => {
+        if (Object.keys(entries).length === 0) {
+            localStorage.removeItem(key);
+        } else {
+            localStorage.setItem(key, JSON.stringify(entries));
+        }
+    };
+
+    return {
+        async getAll() {
+            return Object.values(read());
+        },
+
+        async put(entry) {
+            const entries = read();
+            entries[entry.reportId] = entry;
+            write(entries);
+        },
+
+        async remove(reportIds) {
+            const entries = read();
+            for (const id of reportIds) {
+                delete entries[id];
+            }
+            write(entries);
+        }
+    };
+}
@@ -0,0 +1,392 @@
+/**
+ * Webhook Transport
+ *
+ * Delivers error reports to an HTTP endpoint with timeouts, exponential
+ * backoff retries, a concurrency limit and a sendBeacon fallback on pagehide.
+ * Optionally persists undelivered reports in an offline queue.
+ */
+
+import { ErrorReport, TransportConfig, DeliveryResult, DetectorCleanup } from '../types';
+import { createOfflineQueue } from './offline-queue';
+
+export interface Transport {
+    /** Queue a report for delivery */
+    send(report: ErrorReport): void;
+    /** Number of reports waiting, retrying or in flight */
+    pending(): number;
+    /** Deliver reports stored in the offline queue, if enabled */
+    flushOffline(): Promise<void>;
+    /** Stop delivering and remove page lifecycle listeners */
+    destroy(): void;
+}
+
+export interface TransportHooks {
+    /** Called on pagehide before pending reports are flushed with sendBeacon */
+    beforePageHide?: () => void;
+}
+
+// Browsers reject keepalive fetches and beacons whose body is over 64 KiB
+const KEEPALIVE_LIMIT = 64 * 1024;
+
+// How many delivered reportIds to remember for deduplication
+const MAX_DELIVERED = 500;
+
+interface QueueEntry {
+    report: ErrorReport;
+    attempts: number;
+    /** Whether the report came from the offline queue and is still stored there */
+    stored?: boolean;
+    retryTimer?: ReturnType<typeof setTimeout>;
+}
+
+interface AttemptResult {
+    success: boolean;
+    retryable: boolean;
+    status?: number;
+    error?: string;
+}
+
+const OFFLINE_RESULT: AttemptResult = {
+    success: false,
+    retryable: true,
+    error: 'Browser is offline'
+};
+
+function getByteLength(text: string): number {
+    return new Blob([text]).size;
+}
+
+/**
+ * Serialize a report, dropping its bulkiest parts until it fits in
+ * `maxBytes`: the DOM snapshot, replay events, captured network bodies,
+ * then the oldest actions. Trimmed reports are marked `truncated`.
+ */
+export function serializeReport(report: ErrorReport, maxBytes: number): string {
+    let body = JSON.stringify(report);
+    if (getByteLength(body) <= maxBytes) {
+        return body;
+    }
+
+    const trimmed: ErrorReport = { ...report, truncated: true };
+    const fits = () => {
+        body = JSON.stringify(trimmed);
+        return getByteLength(body) <= maxBytes;
+    };
+
+    delete trimmed.snapshot;
+    if (fits()) return body;
+
+    trimmed.actions = trimmed.actions.filter(action => action.type !== 'replay');
+    if (fits()) return body;
+
+    trimmed.actions = trimmed.actions.map(action => {
+        if (action.type !== 'network') return action;
+        const { requestBody, responseBody, ...rest } = action;
+        return rest;
+    });
+
+    while (!fits() && trimmed.actions.length > 0) {
+        trimmed.actions = trimmed.actions.slice(1);
+    }
+    return body;
+}
+
+/**
+ * Create a transport that POSTs reports as JSON to `config.endpoint`
+ */
+export function createWebhookTransport(config: TransportConfig, hooks: TransportHooks = {}): Transport {
+    const {
+        endpoint,
+        headers = {},
+        timeout = 10000,
+        maxRetries = 3,
+        retryDelay = 1000,
+        maxRetryDelay = 30000,
+        concurrency = 2,
+        useBeacon = true,
+        offline = false,
+        onDelivery
+    } = config;
+
+    // Keep references to the unpatched fetch and sendBeacon so our own
+    // requests are not recorded by the detectors
+    const nativeFetch = window.fetch.bind(window);
+    const nativeSendBeacon = typeof navigator !== 'undefined' && typeof navigator.sendBeacon === 'function'
+        ? navigator.sendBeacon.bind(navigator)
+        : null;
+
+    const offlineQueue = offline
+        ? createOfflineQueue(typeof offline === 'object' ? offline : {})
+        : null;
+
+    const queue: QueueEntry[] = [];
+    const retrying = new Set<QueueEntry>();
+    // reportIds currently queued, retrying or in flight, and those already delivered
+    const tracked = new Set<string>();
+    const delivered = new Set<string>();
+    let active = 0;
+    let destroyed = false;
+    // Set while pagehide releases reports, so they wait for the beacon instead of a fetch
+    let hiding = false;
+
+    const isOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+    const markDelivered = (reportId: string) => {
+        delivered.add(reportId);
+        if (delivered.size > MAX_DELIVERED) {
+            // Sets iterate in insertion order, so this is the oldest id
+            delivered.delete(delivered.values().next().value!);
+        }
+    };
+
+    const finish = (
+        entry: QueueEntry,
+        result: AttemptResult,
+        method: DeliveryResult['method']
+    ) => {
+        const { reportId } = entry.report;
+        tracked.delete(reportId);
+
+        let queued = false;
+        if (result.success) {
+            markDelivered(reportId);
+        } else if (result.retryable && offlineQueue) {
+            // Reports from the offline queue are still stored there
+            if (!entry.stored) {
+                void offlineQueue.add(entry.report);
+            }
+            queued = true;
+        }
+
+        // Delivered or rejected for good - it can leave the offline queue now
+        if (entry.stored && !queued) {
+            void offlineQueue?.remove(reportId);
+        }
+
+        if (!onDelivery) return;
+
+        const delivery: DeliveryResult = {
+            report: entry.report,
+            success: result.success,
+            attempts: entry.attempts,
+            method
+        };
+        if (result.status !== undefined) delivery.status = result.status;
+        if (result.error !== undefined) delivery.error = result.error;
+        if (queued) delivery.queued = true;
+
+        try {
+            onDelivery(delivery);
+        } catch {
+            // Never let a user callback break delivery of other reports
+        }
+    };
+
+    const attempt = async (report: ErrorReport): Promise<AttemptResult> => {
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), timeout);
+
+        const body = JSON.stringify(report);
+
+        try {
+            const response = await nativeFetch(endpoint, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'X-Report-Id': report.reportId,
+                    ...headers
+                },
+                body,
+                signal: controller.signal,
+                // Lets small reports outlive the page; larger ones would be rejected
+                keepalive: getByteLength(body) <= KEEPALIVE_LIMIT
+            });
+
+            if (response.ok) {
+                return { success: true, retryable: false, status: response.status };
+            }
+
+            // Retry server errors and rate limiting, give up on other client errors
+            return {
+                success: false,
+                retryable: response.status >= 500 || response.status === 429 || response.status === 408,
+                status: response.status,
+                error: `HTTP ${response.status}`
+            };
+        } catch (error) {
+            const timedOut = controller.signal.aborted;
+            return {
+                success: false,
+                retryable: true,
+                error: timedOut
+                    ? `Timed out after ${timeout}ms`
+                    : error instanceof Error ? error.message : 'Unknown error'
+            };
+        } finally {
+            clearTimeout(timer);
+        }
+    };
+
+    const getBackoff = (attempts: number): number => {
+        const delay = retryDelay * Math.pow(2, attempts - 1);
+        // Add up to 20% jitter so many clients don't retry in lockstep
+        const jitter = delay * 0.2 * Math.random();
+        return Math.min(delay + jitter, maxRetryDelay);
+    };
+
+    const run = async (entry: QueueEntry) => {
+        active++;
+        entry.attempts++;
+
+        const result = await attempt(entry.report);
+        active--;
+
+        if (destroyed) return;
+
+        if (!result.success && result.retryable && entry.attempts <= maxRetries) {
+            retrying.add(entry);
+            entry.retryTimer = setTimeout(() => {
+                retrying.delete(entry);
+                entry.retryTimer = undefined;
+                queue.push(entry);
+                pump();
+            }, getBackoff(entry.attempts));
+        } else {
+            finish(entry, result, 'fetch');
+        }
+
+        pump();
+    };
+
+    const pump = () => {
+        while (!destroyed && !hiding && active < concurrency && queue.length > 0) {
+            const entry = queue.shift()!;
+            void run(entry);
+        }
+    };
+
+    // Flush everything that hasn't been handed to fetch yet via sendBeacon,
+    // since timers and pending fetches may not survive the page going away
+    const flushWithBeacon = () => {
+        if (!nativeSendBeacon) {
+            return;
+        }
+
+        const entries = [...queue, ...retrying];
+        queue.length = 0;
+
+        for (const entry of entries) {
+            if (entry.retryTimer !== undefined) {
+                clearTimeout(entry.retryTimer);
+                entry.retryTimer = undefined;
+            }
+            retrying.delete(entry);
+
+            // A beacon sent while offline is silently lost, keep the report instead
+            if (offlineQueue && isOffline()) {
+                finish(entry, OFFLINE_RESULT, 'fetch');
+                continue;
+            }
+
+            entry.attempts++;
+
+            let queued = false;
+            try {
+                const blob = new Blob([serializeReport(entry.report, KEEPALIVE_LIMIT)], { type: 'application/json' });
+                queued = nativeSendBeacon(endpoint, blob);
+            } catch {
+                queued = false;
+            }
+
+            finish(entry, {
+                success: queued,
+                retryable: true,
+                error: queued ? undefined : 'sendBeacon rejected the report'
+            }, 'beacon');
+        }
+    };
+
+    const enqueue = (report: ErrorReport, stored: boolean) => {
+        const { reportId } = report;
+        if (destroyed || tracked.has(reportId) || delivered.has(reportId)) {
+            return;
+        }
+
+        const entry: QueueEntry = { report, attempts: 0, stored };
+
+        // No point trying while offline - store it until the `online` event
+        if (offlineQueue && isOffline()) {
+            finish(entry, OFFLINE_RESULT, 'fetch');
+            return;
+        }
+
+        tracked.add(reportId);
+        queue.push(entry);
+        pump();
+    };
+
+    const flushOffline = async () => {
+        if (!offlineQueue || destroyed || isOffline()) return;
+
+        const reports = await offlineQueue.getAll();
+        for (const report of reports) {
+            // Already delivered by this page, e.g. by an earlier flush
+            if (delivered.has(report.reportId)) {
+                void offlineQueue.remove(report.reportId);
+                continue;
+            }
+            enqueue(report, true);
+        }
+    };
+
+    const cleanups: DetectorCleanup[] = [];
+    if (useBeacon) {
+        const handlePageHide = () => {
+            // Reports released now (e.g. by the error throttle) still make the beacon
+            hiding = true;
+            try {
+                hooks.beforePageHide?.();
+            } finally {
+                hiding = false;
+            }
+            flushWithBeacon();
+        };
+        window.addEventListener('pagehide', handlePageHide);
+        cleanups.push(() => window.removeEventListener('pagehide', handlePageHide));
+    }
+
+    if (offlineQueue) {
+        const handleOnline = () => void flushOffline();
+        window.addEventListener('online', handleOnline);
+        cleanups.push(() => window.removeEventListener('online', handleOnline));
+
+        // Deliver anything left over from a previous page load
+        void flushOffline();
+    }
+
+    return {
+        send(report) {
+            enqueue(report, false);
+        },
+
+        flushOffline,
+
+        pending() {
+            return queue.length + retrying.size + active;
+        },
+
+        destroy() {
+            destroyed = true;
+            for (const entry of retrying) {
+                if (entry.retryTimer !== undefined) {
+                    clearTimeout(entry.retryTimer);
+                }
+            }
+            retrying.clear();
+            queue.length = 0;
+            tracked.clear();
+            cleanups.forEach(cleanup => cleanup());
+            cleanups.length = 0;
+        }
+    };
+}
@@ -17,6 +17,8 @@ export interface ClickAction extends BaseAction {
     element: string;
     component?: string;
     componentPath?: string;
+    /** Props and state of the nearest React component, with `captureComponentState` */
+    componentSnapshot?: ComponentSnapshot;
     text?: string;
     position: { x: number; y: number };
 }
@@ -25,6 +27,8 @@ export interface InputAction extends BaseAction {
     type: 'input';
     element: string;
     component?: string;
+    /** Props and state of the nearest React component, with `captureComponentState` */
+    componentSnapshot?: ComponentSnapshot;
     inputType: 'change' | 'blur';
     value: string;
     valueLength: number;
@@ -45,16 +49,258 @@ export interface NetworkAction extends BaseAction {
     status?: number;
     duration?: number;
     error?: string;
+    /** Request body, parsed when JSON and sanitized. Only recorded with `captureRequestBody`. */
+    requestBody?: unknown;
+    /** Response body, parsed when JSON and sanitized. Only recorded with `captureResponseBody`. */
+    responseBody?: unknown;
+    /** Allowlisted request headers, keyed by lowercase name */
+    requestHeaders?: Record<string, string>;
+    /** Allowlisted response headers, keyed by lowercase name */
+    responseHeaders?: Record<string, string>;
+    /**
+     * ID sent in the `correlationHeader` (the trace id for `traceparent`),
+     * for looking the request up in server-side logs and traces
+     */
+    correlationId?: string;
+    /** Set when the request was recognised as GraphQL */
+    graphql?: GraphQLInfo;
+}
+
+/**
+ * A GraphQL operation sent in a request
+ */
+export interface GraphQLOperationInfo {
+    operationName?: string;
+    /** Unknown for persisted queries sent without their query text */
+    operationType?: 'query' | 'mutation' | 'subscription';
+    /** Variables with sensitive values replaced by `[SANITIZED]` */
+    variables?: Record<string, unknown>;
+}
+
+/**
+ * An entry of a GraphQL response's `errors` array
+ */
+export interface GraphQLErrorInfo {
+    message: string;
+    path?: (string | number)[];
+    /** Operation the error belongs to, for batched requests */
+    operationName?: string;
+}
+
+/**
+ * GraphQL details of a network action. A response with `errors` is
+ * recorded as a failure even when its HTTP status is 200.
+ */
+export interface GraphQLInfo {
+    /** One entry per operation; more than one for batched requests */
+    operations: GraphQLOperationInfo[];
+    errors?: GraphQLErrorInfo[];
+}
+
+/**
+ * A `navigator.sendBeacon` call. `queued` is false when the browser
+ * refused the beacon (e.g. payload too large), which is otherwise silent.
+ */
+export interface BeaconAction extends BaseAction {
+    type: 'beacon';
+    url: string;
+    /** Payload size in bytes, when it can be determined */
+    size?: number;
+    queued: boolean;
+}
+
+/**
+ * A script, stylesheet, image or iframe that failed to load
+ */
+export interface ResourceAction extends BaseAction {
+    type: 'resource';
+    /** Tag of the failed element, e.g. `script` */
+    tag: 'script' | 'link' | 'img' | 'iframe';
+    url: string;
+    /** Element identifier, as for clicks */
+    element: string;
+    /** True for scripts that look like lazily loaded bundle chunks */
+    isChunk?: boolean;
+}
+
+/**
+ * The window or a scrollable element came to rest after scrolling
+ */
+export interface ScrollAction extends BaseAction {
+    type: 'scroll';
+    /** Element identifier of the scrolled container; absent for the window */
+    element?: string;
+    x: number;
+    y: number;
+    /** Vertical position as a percentage of the scrollable height */
+    percent: number;
+}
+
+/**
+ * The viewport was resized or the device was rotated
+ */
+export interface ViewportAction extends BaseAction {
+    type: 'viewport';
+    event: 'resize' | 'orientationchange';
+    /** New viewport size in CSS pixels */
+    width: number;
+    height: number;
+    /** Screen orientation, e.g. `landscape-primary`, when available */
+    orientation?: string;
+}
+
+/**
+ * Message counts and sizes for one direction of a realtime connection
+ */
+export interface RealtimeMessageStats {
+    count: number;
+    /** Total size in bytes (UTF-8 for text frames) */
+    bytes: number;
+}
+
+/**
+ * A sanitized, truncated preview of a realtime message
+ */
+export interface RealtimeMessagePreview {
+    direction: 'sent' | 'received';
+    data: string;
+    size: number;
+    timestamp: number;
 }
 
+/**
+ * WebSocket or EventSource lifecycle event. `messages` actions summarise
+ * the traffic since the previous action for the same connection.
+ */
+export interface RealtimeAction extends BaseAction {
+    type: 'realtime';
+    transport: 'websocket' | 'eventsource';
+    event: 'connect' | 'reconnect' | 'messages' | 'error' | 'close';
+    url: string;
+    /** Close code and reason (WebSocket only) */
+    code?: number;
+    reason?: string;
+    wasClean?: boolean;
+    /** Time to connect for connect/reconnect, connection lifetime for close */
+    duration?: number;
+    /** Number of reconnects to this URL so far */
+    attempt?: number;
+    sent?: RealtimeMessageStats;
+    received?: RealtimeMessageStats;
+    /** Last frames, only with `messagePreviews` */
+    previews?: RealtimeMessagePreview[];
+}
+
+export type ConsoleLevel = 'error' | 'warn' | 'info' | 'log' | 'debug' | 'assert' | 'trace';
+
 export interface ConsoleAction extends BaseAction {
     type: 'console';
-    level: 'error' | 'warn';
+    level: ConsoleLevel;
     message: string;
-    args?: string[];
+    /** Arguments serialized to plain JSON values (depth-limited, cycle-safe, sanitized) */
+    args?: unknown[];
+    /** Call-site stack, only with `captureStack` */
+    stack?: string;
+}
+
+/**
+ * Action emitted by a custom detector, e.g. "cart updated".
+ * `data` is sanitized before it is stored.
+ */
+export interface CustomAction extends BaseAction {
+    type: 'custom';
+    name: string;
+    data?: Record<string, unknown>;
+}
+
+/**
+ * DOM recording event stored by the DOM recorder for visual replay.
+ * These are not user actions; timeline formatters skip them.
+ */
+export interface ReplayAction extends BaseAction {
+    type: 'replay';
+    event: ReplayEvent;
 }
 
-export type UserAction = ClickAction | InputAction | NavigationAction | NetworkAction | ConsoleAction;
+export type UserAction =
+    | ClickAction
+    | InputAction
+    | NavigationAction
+    | NetworkAction
+    | ConsoleAction
+    | RealtimeAction
+    | BeaconAction
+    | ResourceAction
+    | ScrollAction
+    | ViewportAction
+    | CustomAction
+    | ReplayAction;
+
+// ============================================
+// DOM Replay
+// ============================================
+
+/**
+ * A DOM node serialized by the recorder. `id` identifies the node in later
+ * mutation events.
+ */
+export type SerializedNode =
+    | {
+        id: number;
+        kind: 'element';
+        tag: string;
+        /** Set for SVG elements, which need a namespace to render */
+        svg?: boolean;
+        attributes: Record<string, string>;
+        children: SerializedNode[];
+    }
+    | { id: number; kind: 'text'; text: string };
+
+export interface ReplaySnapshotEvent {
+    kind: 'snapshot';
+    node: SerializedNode;
+    viewport: { width: number; height: number };
+    scroll: { x: number; y: number };
+}
+
+export interface ReplayMutationEvent {
+    kind: 'mutation';
+    /** Nodes to remove, applied first */
+    removes: { parentId: number; id: number }[];
+    /** Nodes to insert before `nextId` (or append when null), in order */
+    adds: { parentId: number; nextId: number | null; node: SerializedNode }[];
+    texts: { id: number; text: string }[];
+    /** `value: null` removes the attribute */
+    attributes: { id: number; name: string; value: string | null }[];
+}
+
+export interface ReplayScrollEvent {
+    kind: 'scroll';
+    /** Scrolled element, or null for the window */
+    id: number | null;
+    x: number;
+    y: number;
+}
+
+export interface ReplayViewportEvent {
+    kind: 'viewport';
+    width: number;
+    height: number;
+}
+
+export interface ReplayInputEvent {
+    kind: 'input';
+    id: number;
+    value?: string;
+    checked?: boolean;
+}
+
+export type ReplayEvent =
+    | ReplaySnapshotEvent
+    | ReplayMutationEvent
+    | ReplayScrollEvent
+    | ReplayViewportEvent
+    | ReplayInputEvent;
 
 // ============================================
 // Configuration
@@ -95,6 +341,260 @@ export interface TrackInputsConfig {
     select?: boolean;
 }
 
+/**
+ * Fine-grained network tracking options.
+ * Body capture is off unless enabled here.
+ *
+ * @example
+ * // Capture JSON bodies of API calls only
+ * { captureRequestBody: true, captureResponseBody: true, bodyUrls: ['/api/'] }
+ */
+export interface TrackNetworkConfig {
+    /**
+     * Record request bodies (strings, URLSearchParams and FormData).
+     * @default false
+     */
+    captureRequestBody?: boolean;
+
+    /**
+     * Record response bodies. Read from a clone, so the app's own
+     * response stream is left untouched.
+     * @default false
+     */
+    captureResponseBody?: boolean;
+
+    /**
+     * Maximum body size in characters. Longer bodies are cut off and
+     * stored as text ending in `[truncated]`.
+     * @default 10240
+     */
+    maxBodySize?: number;
+
+    /**
+     * Only capture bodies for URLs containing one of these strings or
+     * matching one of these patterns. Captures for all URLs if not set.
+     */
+    bodyUrls?: (string | RegExp)[];
+
+    /**
+     * Content types whose bodies are captured, matched as substrings.
+     * @default ['json', 'text/plain']
+     */
+    bodyContentTypes?: string[];
+
+    /**
+     * Key patterns (regex strings) whose values are replaced with
+     * `[SANITIZED]` in captured bodies, in addition to the `sanitize`
+     * option and the built-in password/token/secret patterns. Like
+     * `sanitize`, they match anywhere in the key unless anchored.
+     * @default ['^card([-_]?(number|holder|expiry|cvc|cvv))?$', 'authorization', 'cookie', 'session']
+     */
+    sanitizeKeys?: string[];
+
+    /**
+     * Request headers to record (case-insensitive).
+     * `Authorization` and `Cookie` values are always redacted.
+     * @default []
+     */
+    requestHeaders?: string[];
+
+    /**
+     * Response headers to record (case-insensitive), e.g. `x-request-id`.
+     * Cross-origin responses only expose CORS-safelisted headers and
+     * those listed in `Access-Control-Expose-Headers`.
+     * @default []
+     */
+    responseHeaders?: string[];
+
+    /**
+     * Add a header with a generated ID to same-origin requests and store
+     * the ID on the action as `correlationId`. Use `'traceparent'` for a
+     * W3C Trace Context header. Requests that already carry the header
+     * keep their value, which is recorded instead.
+     *
+     * @example
+     * correlationHeader: 'x-correlation-id'
+     */
+    correlationHeader?: string;
+
+    /**
+     * Recognise GraphQL requests, record their operations and read
+     * `errors` from the response. A 200 response with errors is
+     * recorded with `error` set.
+     * @default true
+     */
+    graphql?: boolean;
+}
+
+/**
+ * Fine-grained WebSocket and EventSource tracking options.
+ */
+export interface TrackRealtimeConfig {
+    /** Track WebSocket connections. @default true */
+    webSocket?: boolean;
+
+    /** Track EventSource (server-sent events) connections. @default true */
+    eventSource?: boolean;
+
+    /**
+     * Number of recent frames per connection to include as sanitized
+     * previews in `messages` actions. Off by default.
+     * @default 0
+     */
+    messagePreviews?: number;
+
+    /** Maximum preview length in characters. @default 200 */
+    maxPreviewLength?: number;
+
+    /**
+     * How often message counts are summarised into a `messages` action
+     * while a connection is busy, in ms.
+     * @default 5000
+     */
+    summaryInterval?: number;
+}
+
+/**
+ * Fine-grained resource tracking options.
+ */
+export interface TrackResourcesConfig {
+    /** Record `navigator.sendBeacon` calls and whether they were queued. @default true */
+    beacons?: boolean;
+
+    /** Record scripts, stylesheets, images and iframes that fail to load. @default true */
+    loadErrors?: boolean;
+}
+
+/**
+ * Fine-grained scroll and viewport tracking options.
+ */
+export interface TrackScrollConfig {
+    /** Record where the window and scrollable elements come to rest. @default true */
+    scroll?: boolean;
+
+    /** Record `resize` and `orientationchange` with the new viewport size. @default true */
+    viewport?: boolean;
+
+    /** Time without scroll events before a position is recorded, in ms. @default 250 */
+    settleDelay?: number;
+
+    /** Minimum distance from the last recorded position of the same target, in px. @default 100 */
+    minDistance?: number;
+
+    /** Time without resize events before the new size is recorded, in ms. @default 250 */
+    resizeDelay?: number;
+
+    /** Minimum change in width or height for a resize to be recorded, in px. @default 10 */
+    minResize?: number;
+}
+
+/**
+ * Turns matching console messages into full error reports.
+ * A rule matches when all of its conditions match.
+ */
+export interface ConsolePromoteRule {
+    /** Level(s) to match (default: any tracked level) */
+    level?: ConsoleLevel | ConsoleLevel[];
+    /** Substring or pattern the message must match */
+    message?: string | RegExp;
+}
+
+/**
+ * Fine-grained console tracking options.
+ *
+ * @example
+ * // Also record console.info and report "Payment failed" errors
+ * { levels: ['error', 'warn', 'info'], promote: [{ level: 'error', message: /payment failed/i }] }
+ */
+export interface TrackConsoleConfig {
+    /**
+     * Console methods to record.
+     * @default ['error', 'warn']
+     */
+    levels?: ConsoleLevel[];
+
+    /**
+     * How deep logged objects are serialized.
+     * @default 3
+     */
+    maxDepth?: number;
+
+    /**
+     * Record the call-site stack of `console.error`, `console.assert`
+     * and `console.trace` calls.
+     * @default false
+     */
+    captureStack?: boolean;
+
+    /**
+     * Create an error report for matching messages, as if an error had
+     * been thrown (the report's error type is `ConsoleError`).
+     */
+    promote?: ConsolePromoteRule[];
+}
+
+/**
+ * How stack frames are classified as app code or library code.
+ * Frames from `node_modules`, browser extensions and native code are
+ * always library frames.
+ *
+ * @example
+ * { inAppUrls: ['https://app.example.com/static/'], libraryUrls: [/vendor\.[0-9a-f]+\.js/] }
+ */
+export interface StackTraceConfig {
+    /** When set, only frames whose file matches one of these are in-app */
+    inAppUrls?: (string | RegExp)[];
+    /** Additional files that are never in-app */
+    libraryUrls?: (string | RegExp)[];
+}
+
+/**
+ * The component that rendered an element, with its nearest ancestors
+ */
+export interface ComponentInfo {
+    /** Nearest component, e.g. "SubmitButton" */
+    name: string;
+    /** Outermost to nearest, e.g. "App > CheckoutForm > SubmitButton" */
+    path: string;
+}
+
+/**
+ * Finds the component that rendered an element, or null if there is none
+ */
+export type ComponentResolver = (element: Element) => ComponentInfo | null;
+
+/** Frameworks with a built-in component resolver */
+export type ComponentFramework = 'react' | 'vue' | 'angular' | 'svelte';
+
+/**
+ * Shallow snapshot of a React component at the time of an action.
+ * Functions and React elements are summarised, e.g. "[Function onSubmit]"
+ * and "<PriceTag />".
+ */
+export interface ComponentSnapshot {
+    /** Component the snapshot is from, e.g. "CheckoutForm" */
+    component: string;
+    props?: Record<string, unknown>;
+    /** Hook state values in call order, or `this.state` of class components */
+    state?: unknown[] | Record<string, unknown>;
+    /** Set when entries were dropped to stay within `maxSize` */
+    truncated?: boolean;
+}
+
+/**
+ * What to record in component snapshots
+ */
+export interface ComponentStateConfig {
+    /** Record props (default: true) */
+    props?: boolean;
+    /** Record useState/useReducer values, or class component state (default: false) */
+    state?: boolean;
+    /** Maximum props, state keys or hook values kept (default: 20) */
+    maxKeys?: number;
+    /** Maximum size of a snapshot as JSON, in characters (default: 2000) */
+    maxSize?: number;
+}
+
 export interface ErrorReplayConfig {
     /** Maximum number of actions to store in buffer (default: 50) */
     maxActions?: number;
@@ -111,6 +611,9 @@ export interface ErrorReplayConfig {
      * - Values matching credit card or SSN patterns
      * 
      * Use this option to add **additional** fields to sanitize.
+     * Entries that are not selectors are case-insensitive regexes matched
+     * anywhere in the name or key, so `'card'` also matches `cardinality`;
+     * anchor them (`'^card$'`) to match exact names.
      * 
      * @default []
      * 
@@ -131,8 +634,50 @@ export interface ErrorReplayConfig {
     /** Callback when an error is captured */
     onError?: (report: ErrorReport) => void;
 
-    /** Enable React component name detection (default: true) */
-    captureComponents?: boolean;
+    /**
+     * Called for every action before it is added to the buffer.
+     * Return a modified action, or `null` to drop it.
+     *
+     * @example
+     * // Strip tenant identifiers from paths
+     * beforeAction: (action) => ({ ...action, page: action.page.replace(/\/tenants\/[^/]+/, '/tenants/:id') })
+     */
+    beforeAction?: (action: UserAction) => UserAction | null;
+
+    /**
+     * Called before a report is passed to `onError` or the transport.
+     * Return a modified report, or `null` to drop it. May be async.
+     * If the hook throws or rejects, the report is dropped.
+     *
+     * Note: `capture()` returns the report as generated; only the copy
+     * delivered to the transport goes through this hook.
+     *
+     * @example
+     * // Ignore noisy third-party errors
+     * beforeSend: (report) => report.error.stack?.includes('widget.thirdparty.com') ? null : report
+     */
+    beforeSend?: (report: ErrorReport) => ErrorReport | null | Promise<ErrorReport | null>;
+
+    /**
+     * Component name detection for clicked and edited elements (default:
+     * true, which tries React, Vue, Angular and Svelte). Set a framework
+     * to use only its resolver, or pass your own resolver.
+     *
+     * @example
+     * captureComponents: 'vue'
+     * captureComponents: (element) => ({ name: element.closest('[data-widget]')?.getAttribute('data-widget') ?? 'App', path: '' })
+     */
+    captureComponents?: boolean | ComponentFramework | ComponentResolver;
+
+    /**
+     * Attach a shallow, sanitized snapshot of the nearest React component's
+     * props (and optionally hook state) to click and input actions
+     * (default: false). Keys matching `sanitize` patterns are redacted.
+     *
+     * @example
+     * captureComponentState: { state: true, maxSize: 1000 }
+     */
+    captureComponentState?: boolean | ComponentStateConfig;
 
     /** Enable click tracking (default: true) */
     trackClicks?: boolean;
@@ -159,11 +704,140 @@ export interface ErrorReplayConfig {
     /** Enable navigation tracking (default: true) */
     trackNavigation?: boolean;
 
-    /** Enable network tracking (default: true) */
-    trackNetwork?: boolean;
+    /**
+     * Network tracking configuration.
+     * - `true`: Track fetch and XHR requests without bodies (default)
+     * - `false`: Disable network tracking
+     * - Object: Track requests and opt into body capture
+     *
+     * @example
+     * trackNetwork: { captureResponseBody: true, maxBodySize: 4096 }
+     */
+    trackNetwork?: boolean | TrackNetworkConfig;
+
+    /**
+     * Console tracking configuration.
+     * - `true`: Record `console.error` and `console.warn` (default)
+     * - `false`: Disable console tracking
+     * - Object: Choose levels, capture stacks and promote messages to reports
+     */
+    trackConsole?: boolean | TrackConsoleConfig;
+
+    /**
+     * WebSocket and EventSource tracking configuration (default: false).
+     * - `true`: Record connects, reconnects, errors, closes and message counts
+     * - Object: Choose transports and enable message previews
+     *
+     * @example
+     * trackRealtime: { eventSource: false, messagePreviews: 5 }
+     */
+    trackRealtime?: boolean | TrackRealtimeConfig;
+
+    /**
+     * Resource tracking configuration.
+     * - `true`: Record `sendBeacon` calls and failed scripts, stylesheets,
+     *   images and iframes (default)
+     * - `false`: Disable resource tracking
+     * - Object: Enable only some of them
+     */
+    trackResources?: boolean | TrackResourcesConfig;
+
+    /**
+     * Scroll and viewport tracking configuration.
+     * - `true`: Record scroll positions once scrolling settles, and viewport
+     *   resizes and rotations
+     * - `false`: Disable scroll and viewport tracking (default)
+     * - Object: Enable only some of them, or change the thresholds
+     */
+    trackScroll?: boolean | TrackScrollConfig;
+
+    /**
+     * Deliver reports to a webhook endpoint automatically.
+     * Reports from the global error handlers and from `capture()` are sent
+     * through the transport in addition to being passed to `onError`.
+     *
+     * @example
+     * transport: {
+     *     endpoint: 'https://errors.example.com/ingest',
+     *     headers: { 'x-api-key': 'public-key' },
+     *     onDelivery: (result) => {
+     *         if (!result.success) console.warn('Report not delivered', result.error);
+     *     }
+     * }
+     */
+    transport?: TransportConfig;
+
+    /**
+     * Deduplicate repeated errors and rate limit reports from the global
+     * error handlers. Pass `true` for defaults or an object to tune it.
+     *
+     * With throttling enabled, the first occurrence of an error is held for
+     * `dedupeWindow` ms; further occurrences with the same fingerprint are
+     * merged into it and counted in `report.occurrences`.
+     * Pending reports are delivered early on `stop()` and `pagehide`.
+     *
+     * @default false
+     */
+    throttle?: boolean | ThrottleConfig;
+
+    /**
+     * Sample sessions and reports on high-traffic pages.
+     * The decision is recorded in `report.sampling` so statistics can be scaled back up.
+     *
+     * @example
+     * sampling: {
+     *     sessionSampleRate: 0.1,
+     *     reportSampleRate: 0.5,
+     *     rules: [{ errorType: 'TypeError', url: /\/checkout/, sampleRate: 1 }]
+     * }
+     */
+    sampling?: SamplingConfig;
+
+    /**
+     * Classify stack frames as app or library code. Reports carry the
+     * parsed frames in `error.frames`; fingerprints and rendered stacks
+     * use the app frames.
+     *
+     * @example
+     * stackTrace: { inAppUrls: [location.origin + '/static/js/'] }
+     */
+    stackTrace?: StackTraceConfig;
+
+    /**
+     * Attach a serialized DOM snapshot (markup, styles, form values and
+     * scroll positions) to every report. Sensitive form values are masked
+     * with the same rules as input tracking, and elements with the
+     * `blockAttribute` are left out. Can also be requested per call with
+     * `capture(error, { snapshot: true })`.
+     *
+     * @default false
+     */
+    domSnapshot?: boolean | DomSnapshotConfig;
 
-    /** Enable console tracking (default: true) */
-    trackConsole?: boolean;
+    /**
+     * Record DOM changes for visual replay with `createReplayPlayer()`.
+     * Takes a full snapshot on `start()`, then stores mutations, scrolls,
+     * viewport resizes and form value changes in a separate replay buffer,
+     * so they don't count toward `maxActions`. Its size is set with
+     * `recordDom.maxEvents`.
+     *
+     * @default false
+     */
+    recordDom?: boolean | DomRecorderConfig;
+
+    /**
+     * Custom detectors to run alongside the built-in ones, keyed by name.
+     * More can be added later with `registerDetector()`.
+     *
+     * @example
+     * detectors: {
+     *     cart: ({ emit }) => {
+     *         const unsubscribe = cartStore.subscribe(cart => emit('cart updated', { items: cart.items.length }));
+     *         return unsubscribe;
+     *     }
+     * }
+     */
+    detectors?: Record<string, DetectorFactory>;
 
     /** Custom user data to include in reports */
     user?: {
@@ -173,6 +847,200 @@ export interface ErrorReplayConfig {
     };
 }
 
+/**
+ * Configuration for error deduplication and rate limiting.
+ */
+export interface ThrottleConfig {
+    /** Occurrences of the same error within this window are merged into one report, in ms (default: 5000) */
+    dedupeWindow?: number;
+
+    /** Maximum reports per fingerprint per `interval` (default: 10) */
+    maxPerFingerprint?: number;
+
+    /** Maximum reports overall per `interval` (default: 30) */
+    maxTotal?: number;
+
+    /** Rate limit interval in milliseconds (default: 60000) */
+    interval?: number;
+}
+
+/**
+ * Configuration for session and report sampling. Rates are between 0 and 1.
+ */
+export interface SamplingConfig {
+    /**
+     * Fraction of sessions (ErrorReplay instances) that record at all.
+     * Unsampled sessions install no detectors and no error handlers.
+     * @default 1
+     */
+    sessionSampleRate?: number;
+
+    /**
+     * Fraction of uncaught errors that produce a report.
+     * `capture()` is never sampled.
+     * @default 1
+     */
+    reportSampleRate?: number;
+
+    /** Per-error overrides of `reportSampleRate`; the first matching rule wins */
+    rules?: SamplingRule[];
+}
+
+/**
+ * Overrides the report sample rate for matching errors.
+ * All given conditions must match.
+ */
+export interface SamplingRule {
+    /** Optional name, recorded in `report.sampling.rule` */
+    name?: string;
+    /** Matches `ErrorInfo.type` exactly (string) or by pattern */
+    errorType?: string | RegExp;
+    /** Matches `ErrorInfo.message` by substring (string) or pattern */
+    message?: string | RegExp;
+    /** Matches the page URL by substring (string) or pattern */
+    url?: string | RegExp;
+    sampleRate: number;
+}
+
+/**
+ * Configuration for DOM snapshots.
+ */
+export interface DomSnapshotConfig {
+    /** Maximum snapshot size in characters; text and attribute values are cut to fit (default: 512000) */
+    maxSize?: number;
+
+    /** Inline readable stylesheets and keep `<style>` elements (default: true) */
+    includeStyles?: boolean;
+
+    /**
+     * Elements with this attribute (and their children) are replaced by an
+     * empty placeholder of the same size (default: 'data-replay-block')
+     */
+    blockAttribute?: string;
+}
+
+/**
+ * Configuration for the DOM recorder.
+ */
+export interface DomRecorderConfig {
+    /**
+     * Take a fresh full snapshot after this many recorded events, so the
+     * buffer still holds one after older events are overwritten (default: 20)
+     */
+    checkoutEvery?: number;
+
+    /**
+     * Number of replay events to keep. They have their own buffer, so they
+     * don't push user actions out of `maxActions`. Keep it above
+     * `checkoutEvery` so a full snapshot is always kept (default: 200)
+     */
+    maxEvents?: number;
+
+    /** Minimum time between recorded scroll/resize events per target, in ms (default: 100) */
+    throttle?: number;
+
+    /** Elements with this attribute are recorded as empty placeholders (default: 'data-replay-block') */
+    blockAttribute?: string;
+}
+
+/**
+ * Options for a single `capture()` call.
+ */
+export interface CaptureOptions {
+    /** Attach a DOM snapshot, overriding the `domSnapshot` config */
+    snapshot?: boolean;
+    /** React component stack of the error, stored in `error.componentStack` */
+    componentStack?: string;
+    /**
+     * Handle the error like an uncaught one: sampled, throttled, passed to
+     * `onError`, and the recorded actions are cleared afterwards (default: false)
+     */
+    uncaught?: boolean;
+}
+
+/**
+ * Configuration for the built-in webhook transport.
+ */
+export interface TransportConfig {
+    /** URL that reports are POSTed to as JSON */
+    endpoint: string;
+
+    /**
+     * Extra request headers, e.g. an API key.
+     * Note: headers cannot be sent with the `sendBeacon` fallback.
+     */
+    headers?: Record<string, string>;
+
+    /** Request timeout in milliseconds (default: 10000) */
+    timeout?: number;
+
+    /** Number of retries after the first failed attempt (default: 3) */
+    maxRetries?: number;
+
+    /** Base delay for exponential backoff in milliseconds (default: 1000) */
+    retryDelay?: number;
+
+    /** Upper bound for the backoff delay in milliseconds (default: 30000) */
+    maxRetryDelay?: number;
+
+    /** Maximum number of requests in flight at once (default: 2) */
+    concurrency?: number;
+
+    /**
+     * Flush pending reports with `navigator.sendBeacon` when the page is
+     * being hidden or unloaded (default: true)
+     */
+    useBeacon?: boolean;
+
+    /**
+     * Persist reports that could not be delivered (offline, network failure,
+     * retries exhausted) and deliver them when the browser comes back online
+     * or on the next page load. Pass `true` for defaults or an object to tune it.
+     * @default false
+     */
+    offline?: boolean | OfflineQueueConfig;
+
+    /**
+     * Called once per report when delivery finally succeeds or fails
+     * (after all retries are exhausted), or when the report is stored
+     * in the offline queue.
+     */
+    onDelivery?: (result: DeliveryResult) => void;
+}
+
+/**
+ * Configuration for the persistent offline queue.
+ * Reports are stored in IndexedDB, falling back to localStorage.
+ */
+export interface OfflineQueueConfig {
+    /** Maximum number of stored reports; the oldest are dropped first (default: 50) */
+    maxSize?: number;
+
+    /** Stored reports older than this are discarded, in milliseconds (default: 24 hours) */
+    maxAge?: number;
+
+    /** IndexedDB database name and localStorage key (default: 'error-replay-queue') */
+    storageKey?: string;
+}
+
+/**
+ * Outcome of delivering a single report through the transport.
+ */
+export interface DeliveryResult {
+    report: ErrorReport;
+    success: boolean;
+    /** Number of attempts made, including the first one */
+    attempts: number;
+    /** How the final attempt was sent */
+    method: 'fetch' | 'beacon';
+    /** HTTP status of the final attempt, if a response was received */
+    status?: number;
+    /** Error message of the final attempt, if it failed */
+    error?: string;
+    /** True if the failed report was stored in the offline queue for a later attempt */
+    queued?: boolean;
+}
+
 // ============================================
 // Error Report
 // ============================================
@@ -181,9 +1049,34 @@ export interface ErrorInfo {
     message: string;
     type: string;
     stack?: string;
+    /** `stack` parsed into frames, innermost first */
+    frames?: StackFrame[];
     componentStack?: string;
 }
 
+/**
+ * A parsed stack frame
+ */
+export interface StackFrame {
+    function?: string;
+    file?: string;
+    line?: number;
+    column?: number;
+    /** False for library, extension and browser-internal frames */
+    inApp: boolean;
+    /** Original source around the frame, added by `symbolicate()` */
+    context?: StackFrameContext;
+}
+
+/**
+ * Lines of original source around a frame's line
+ */
+export interface StackFrameContext {
+    pre: string[];
+    line: string;
+    post: string[];
+}
+
 export interface ContextInfo {
     url: string;
     userAgent: string;
@@ -199,6 +1092,12 @@ export type ActionWithRelativeTime = UserAction & {
 export interface ErrorReport {
     reportId: string;
     timestamp: string;
+    /** Deterministic hash of the error type, message template and top stack frames */
+    fingerprint?: string;
+    /** Number of occurrences of this error represented by the report (default: 1) */
+    occurrences?: number;
+    /** Timestamp of the first merged occurrence, when `occurrences` is more than 1 */
+    firstSeen?: string;
     error: ErrorInfo;
     context: ContextInfo;
     user?: {
@@ -207,6 +1106,34 @@ export interface ErrorReport {
         [key: string]: unknown;
     };
     actions: ActionWithRelativeTime[];
+    /** Sampling decision that let this report through */
+    sampling?: SamplingInfo;
+    /** Page state at the time of the error, if snapshots are enabled */
+    snapshot?: DomSnapshot;
+    /** Set when parts of the report were dropped to fit the beacon size limit */
+    truncated?: boolean;
+}
+
+export interface DomSnapshot {
+    /** Serialized document, with scripts removed and sensitive values masked */
+    html: string;
+    /** Length of `html` in characters */
+    size: number;
+    /** True if serialization stopped at `maxSize` */
+    truncated: boolean;
+    /** Window scroll position; element positions are in `data-replay-scroll` attributes */
+    scroll: { x: number; y: number };
+    viewport: { width: number; height: number };
+    timestamp: number;
+}
+
+export interface SamplingInfo {
+    /** Session sample rate this session was recorded under */
+    sessionRate: number;
+    /** Report sample rate applied to this error (1 for `capture()`) */
+    reportRate: number;
+    /** Name (or index) of the sampling rule that matched, if any */
+    rule?: string;
 }
 
 // ============================================
@@ -216,3 +1143,28 @@ export interface ErrorReport {
 export interface DetectorCleanup {
     (): void;
 }
+
+/**
+ * Passed to custom detectors so they can record actions.
+ */
+export interface DetectorContext {
+    /**
+     * Record a custom action. `data` is sanitized with the same rules as
+     * input values before it reaches the buffer.
+     */
+    emit(name: string, data?: Record<string, unknown>): void;
+
+    /** Whether component detection is enabled */
+    captureComponents: boolean;
+
+    /** The configured `sanitize` patterns */
+    sanitizePatterns: string[];
+}
+
+/**
+ * Factory for a custom detector. Called on `start()`; the returned
+ * cleanup function is called on `stop()`.
+ */
+export interface DetectorFactory {
+    (context: DetectorContext): DetectorCleanup;
+}
@@ -0,0 +1,65 @@
+/**
+ * Angular Component Detector
+ *
+ * Detects Angular component names from DOM elements, using the `ng`
+ * debugging API of development builds, or the `__ngContext__` that Ivy
+ * attaches to elements otherwise (class names may be minified there).
+ */
+
+import { ComponentInfo } from '../types';
+import { toComponentInfo } from './component-info';
+
+// Index of the component instance in an Ivy logical view (LView)
+const LVIEW_CONTEXT = 8;
+
+/**
+ * Get Angular component information for a DOM element
+ */
+export function getAngularComponentInfo(element: Element): ComponentInfo | null {
+    try {
+        const ng = (window as any).ng;
+        const getComponent = typeof ng?.getComponent === 'function'
+            ? (node: Element) => ng.getComponent(node)
+            : getContextComponent;
+
+        const names: string[] = [];
+        let current: Element | null = element;
+
+        // Components among the element and its ancestors, nearest first
+        while (current) {
+            const name = getComponentName(getComponent(current));
+            if (name && names[names.length - 1] !== name) {
+                names.push(name);
+            }
+            current = current.parentElement;
+        }
+
+        return toComponentInfo(names);
+    } catch {
+        // Angular might not be present or its internals might differ
+        return null;
+    }
+}
+
+/**
+ * Get the component whose template declares an element, from its Ivy context
+ */
+function getContextComponent(element: Element): unknown {
+    const context = (element as any).__ngContext__;
+    // Newer Angular versions store a numeric id, which can't be resolved without the framework
+    if (!Array.isArray(context)) {
+        return null;
+    }
+    // The view's context is its component, unless it is an embedded view
+    // (e.g. *ngIf), whose context is a plain template context
+    const component = context[LVIEW_CONTEXT];
+    return component && (component as any).__ngContext__ === context ? component : null;
+}
+
+function getComponentName(component: unknown): string | null {
+    if (!component || typeof component !== 'object') {
+        return null;
+    }
+    const name = (component as object).constructor?.name;
+    return name && name !== 'Object' ? name.replace(/^_+/, '') : null;
+}
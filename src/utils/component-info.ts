@@ -0,0 +1,45 @@
+/**
+ * Component Info
+ *
+ * Shared by the framework component detectors to build a name and path.
+ */
+
+import { ComponentInfo } from '../types';
+
+const MAX_PATH_LENGTH = 5;
+
+/**
+ * Build component info from component names, nearest first. The path
+ * keeps the nearest few distinct names, outermost first.
+ */
+export function toComponentInfo(names: string[]): ComponentInfo | null {
+    if (names.length === 0) {
+        return null;
+    }
+
+    const path: string[] = [];
+    for (const name of names) {
+        if (path.length >= MAX_PATH_LENGTH) {
+            break;
+        }
+        if (!path.includes(name)) {
+            path.unshift(name);
+        }
+    }
+
+    return {
+        name: names[0],
+        path: path.join(' > ')
+    };
+}
+
+/**
+ * Get a component name from its source file, e.g. "src/Button.vue" -> "Button"
+ */
+export function getNameFromFile(file: unknown): string | null {
+    if (typeof file !== 'string') {
+        return null;
+    }
+    const match = /([^/\\]+?)(\.[^./\\]+)?$/.exec(file);
+    return match ? match[1] : null;
+}
@@ -0,0 +1,58 @@
+/**
+ * Component Resolver
+ *
+ * Selects how component names are found for elements, based on the
+ * `captureComponents` option.
+ */
+
+import { ComponentFramework, ComponentResolver, ErrorReplayConfig } from '../types';
+import { getReactComponentInfo } from './react-detector';
+import { getVueComponentInfo } from './vue-detector';
+import { getAngularComponentInfo } from './angular-detector';
+import { getSvelteComponentInfo } from './svelte-detector';
+
+export type CaptureComponentsOption = NonNullable<ErrorReplayConfig['captureComponents']>;
+
+const FRAMEWORK_RESOLVERS: Record<ComponentFramework, ComponentResolver> = {
+    react: getReactComponentInfo,
+    vue: getVueComponentInfo,
+    angular: getAngularComponentInfo,
+    svelte: getSvelteComponentInfo
+};
+
+/**
+ * Try each framework in turn, so pages mixing frameworks work too
+ */
+const resolveAnyFramework: ComponentResolver = element => {
+    for (const resolve of Object.values(FRAMEWORK_RESOLVERS)) {
+        const info = resolve(element);
+        if (info) {
+            return info;
+        }
+    }
+    return null;
+};
+
+/**
+ * Get the resolver for a `captureComponents` option, or null if component
+ * detection is disabled
+ */
+export function getComponentResolver(option: CaptureComponentsOption): ComponentResolver | null {
+    if (option === false) {
+        return null;
+    }
+    if (option === true) {
+        return resolveAnyFramework;
+    }
+    if (typeof option === 'function') {
+        return element => {
+            try {
+                return option(element);
+            } catch {
+                // A throwing resolver shouldn't break action recording
+                return null;
+            }
+        };
+    }
+    return FRAMEWORK_RESOLVERS[option] ?? null;
+}
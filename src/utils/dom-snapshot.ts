@@ -0,0 +1,252 @@
+/**
+ * DOM Snapshot Utility
+ *
+ * Serializes the current page (markup, styles, form values and scroll
+ * positions) into a size-capped HTML string, masking sensitive values
+ * with the same rules used for input tracking.
+ */
+
+import { DomSnapshot, DomSnapshotConfig } from '../types';
+import { shouldSanitize, containsSensitiveData } from './sanitizer';
+
+export interface DomSnapshotOptions extends DomSnapshotConfig {
+    /** The configured `sanitize` patterns */
+    sanitizePatterns: string[];
+}
+
+export const DEFAULT_BLOCK_ATTRIBUTE = 'data-replay-block';
+const DEFAULT_MAX_SIZE = 500 * 1024;
+
+const SANITIZED = '[SANITIZED]';
+
+// Elements that are never serialized
+const SKIPPED_TAGS = ['script', 'noscript', 'template'];
+
+const VOID_TAGS = [
+    'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input',
+    'link', 'meta', 'param', 'source', 'track', 'wbr'
+];
+
+interface SerializeState {
+    parts: string[];
+    size: number;
+    maxSize: number;
+    truncated: boolean;
+    blockAttribute: string;
+    sanitizePatterns: string[];
+    includeStyles: boolean;
+}
+
+/**
+ * Escape text for use in HTML content and attributes
+ */
+function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+function write(state: SerializeState, text: string): void {
+    state.parts.push(text);
+    state.size += text.length;
+}
+
+/**
+ * Cut content to the space left under the size cap, marking the snapshot
+ * truncated when anything is dropped. `reserved` counts markup that will be
+ * written before the content. Cuts never leave a partial character reference.
+ */
+function fitToBudget(state: SerializeState, text: string, reserved: number = 0): string {
+    const remaining = Math.max(0, state.maxSize - state.size - reserved);
+    if (text.length <= remaining) {
+        return text;
+    }
+    state.truncated = true;
+    return text.slice(0, remaining).replace(/&[a-z]*$/, '');
+}
+
+/**
+ * Get the value of a form control as it should appear in the snapshot
+ */
+function getSafeValue(element: HTMLInputElement | HTMLTextAreaElement, state: SerializeState): string {
+    const value = element.value;
+    if (!value) {
+        return value;
+    }
+    if (shouldSanitize(element, state.sanitizePatterns) || containsSensitiveData(value)) {
+        return SANITIZED;
+    }
+    return value;
+}
+
+/**
+ * Get the CSS text of a stylesheet, or null if it can't be read (cross-origin)
+ */
+function getStyleSheetText(sheet: CSSStyleSheet | null): string | null {
+    if (!sheet) {
+        return null;
+    }
+    try {
+        return Array.from(sheet.cssRules).map(rule => rule.cssText).join('\n');
+    } catch {
+        return null;
+    }
+}
+
+function serializeAttributes(element: Element, state: SerializeState, overrides: Record<string, string | null>): string {
+    const attributes: string[] = [];
+    // Length of the tag name and attributes written so far
+    let used = element.localName.length + 2;
+    const addValue = (name: string, value: string): void => {
+        const attribute = `${name}="${fitToBudget(state, escapeHtml(value), used + name.length + 4)}"`;
+        attributes.push(attribute);
+        used += attribute.length + 1;
+    };
+
+    for (const attribute of Array.from(element.attributes)) {
+        const name = attribute.name;
+        // Inline event handlers never run in a snapshot
+        if (name.startsWith('on') || name in overrides) {
+            continue;
+        }
+        let value = attribute.value;
+        if (name === 'value' && containsSensitiveData(value)) {
+            value = SANITIZED;
+        }
+        addValue(name, value);
+    }
+
+    for (const [name, value] of Object.entries(overrides)) {
+        if (value !== null) {
+            if (value === '') {
+                attributes.push(name);
+                used += name.length + 1;
+            } else {
+                addValue(name, value);
+            }
+        }
+    }
+
+    // Element scroll positions, restored by whoever renders the snapshot
+    if (element.scrollTop || element.scrollLeft) {
+        attributes.push(`data-replay-scroll="${element.scrollLeft},${element.scrollTop}"`);
+    }
+
+    return attributes.length > 0 ? ' ' + attributes.join(' ') : '';
+}
+
+function serializeNode(node: Node, state: SerializeState): void {
+    if (state.size >= state.maxSize) {
+        state.truncated = true;
+        return;
+    }
+
+    if (node.nodeType === Node.TEXT_NODE) {
+        const text = node.textContent ?? '';
+        const parentTag = node.parentElement?.localName;
+        if (parentTag === 'style') {
+            // CSS is raw text - only guard against closing the element early
+            write(state, fitToBudget(state, text.replace(/<\/style/gi, '<\\/style')));
+        } else {
+            write(state, fitToBudget(state, containsSensitiveData(text) ? SANITIZED : escapeHtml(text)));
+        }
+        return;
+    }
+
+    if (node.nodeType !== Node.ELEMENT_NODE) {
+        return;
+    }
+
+    const element = node as Element;
+    const tag = element.localName;
+
+    if (SKIPPED_TAGS.includes(tag)) {
+        return;
+    }
+
+    // Opted-out elements are replaced with an empty box of the same size
+    if (element.hasAttribute(state.blockAttribute)) {
+        const rect = element.getBoundingClientRect();
+        write(state, `<div ${state.blockAttribute}="" style="width:${Math.round(rect.width)}px;height:${Math.round(rect.height)}px"></div>`);
+        return;
+    }
+
+    // Inline readable external stylesheets so the snapshot has no external assets
+    if (tag === 'link' && state.includeStyles && element.getAttribute('rel') === 'stylesheet') {
+        const css = getStyleSheetText((element as HTMLLinkElement).sheet as CSSStyleSheet | null);
+        if (css !== null) {
+            write(state, `<style>${fitToBudget(state, css.replace(/<\/style/gi, '<\\/style'), 7)}</style>`);
+            return;
+        }
+    }
+
+    if (tag === 'style' && !state.includeStyles) {
+        return;
+    }
+
+    // Current form state is written into attributes
+    const overrides: Record<string, string | null> = {};
+    let textareaValue: string | null = null;
+
+    if (element instanceof HTMLInputElement) {
+        if (element.type === 'checkbox' || element.type === 'radio') {
+            overrides.checked = element.checked ? '' : null;
+        } else if (element.type !== 'file') {
+            overrides.value = getSafeValue(element, state);
+        }
+    } else if (element instanceof HTMLTextAreaElement) {
+        textareaValue = getSafeValue(element, state);
+    } else if (element instanceof HTMLOptionElement) {
+        overrides.selected = element.selected ? '' : null;
+    }
+
+    write(state, `<${tag}${serializeAttributes(element, state, overrides)}>`);
+
+    if (VOID_TAGS.includes(tag)) {
+        return;
+    }
+
+    if (tag === 'head') {
+        // Resolve relative URLs against the original page
+        write(state, `<base href="${escapeHtml(window.location.href)}">`);
+    }
+
+    if (textareaValue !== null) {
+        write(state, fitToBudget(state, escapeHtml(textareaValue)));
+    } else if (tag !== 'iframe') {
+        for (const child of Array.from(element.childNodes)) {
+            serializeNode(child, state);
+        }
+    }
+
+    write(state, `</${tag}>`);
+}
+
+/**
+ * Capture a serialized snapshot of the current document
+ */
+export function captureDomSnapshot(options: DomSnapshotOptions): DomSnapshot {
+    const state: SerializeState = {
+        parts: [],
+        size: 0,
+        maxSize: options.maxSize ?? DEFAULT_MAX_SIZE,
+        truncated: false,
+        blockAttribute: options.blockAttribute ?? DEFAULT_BLOCK_ATTRIBUTE,
+        sanitizePatterns: options.sanitizePatterns,
+        includeStyles: options.includeStyles !== false
+    };
+
+    write(state, '<!DOCTYPE html>');
+    serializeNode(document.documentElement, state);
+
+    return {
+        html: state.parts.join(''),
+        size: state.size,
+        truncated: state.truncated,
+        scroll: { x: window.scrollX, y: window.scrollY },
+        viewport: { width: window.innerWidth, height: window.innerHeight },
+        timestamp: Date.now()
+    };
+}
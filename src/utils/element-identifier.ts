@@ -4,30 +4,50 @@
  * Generates meaningful identifiers for DOM elements using a priority-based approach.
  */
 
-import { getReactComponentInfo } from './react-detector';
+import { ComponentSnapshot } from '../types';
+import { getComponentResolver, CaptureComponentsOption } from './component-resolver';
+import { getReactComponentSnapshot, ReactSnapshotOptions } from './react-detector';
+import { shouldSanitize } from './sanitizer';
 
 export interface ElementInfo {
     identifier: string;
     component?: string;
     componentPath?: string;
+    componentSnapshot?: ComponentSnapshot;
     text?: string;
 }
 
 /**
- * Get a meaningful identifier for a DOM element
+ * Get a meaningful identifier for a DOM element. With `componentState`,
+ * a snapshot of the nearest React component is included.
  */
-export function getElementIdentifier(element: Element, captureComponents: boolean = true): ElementInfo {
+export function getElementIdentifier(
+    element: Element,
+    captureComponents: CaptureComponentsOption = true,
+    componentState?: ReactSnapshotOptions
+): ElementInfo {
     const tagName = element.tagName.toLowerCase();
     const result: ElementInfo = {
         identifier: tagName
     };
 
-    // Try React component detection first
-    if (captureComponents) {
-        const reactInfo = getReactComponentInfo(element);
-        if (reactInfo) {
-            result.component = reactInfo.name;
-            result.componentPath = reactInfo.path;
+    // Try component detection first
+    const resolveComponent = getComponentResolver(captureComponents);
+    if (resolveComponent) {
+        const componentInfo = resolveComponent(element);
+        if (componentInfo) {
+            result.component = componentInfo.name;
+            result.componentPath = componentInfo.path;
+        }
+    }
+
+    // The props of a sensitive field's component hold its value (e.g. a controlled password)
+    const isSensitiveField = (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement) &&
+        shouldSanitize(element, componentState?.sanitizePatterns);
+    if (componentState && !isSensitiveField) {
+        const snapshot = getReactComponentSnapshot(element, componentState);
+        if (snapshot) {
+            result.componentSnapshot = snapshot;
         }
     }
 
@@ -0,0 +1,146 @@
+/**
+ * Error Throttle Utility
+ *
+ * Deduplicates repeated errors by fingerprint and applies per-fingerprint
+ * and global rate limits, so an error loop produces one report with an
+ * occurrence count instead of a flood of reports.
+ */
+
+import { ErrorReport, ThrottleConfig } from '../types';
+
+export interface ErrorThrottle {
+    /** Submit a report; it is delivered now, later, or merged into another */
+    submit(report: ErrorReport): void;
+    /** Deliver all reports still waiting for their dedupe window to close */
+    flush(): void;
+    /** Drop pending reports and timers */
+    destroy(): void;
+}
+
+interface FingerprintState {
+    /** Report waiting for its dedupe window to close */
+    pending?: ErrorReport;
+    timer?: ReturnType<typeof setTimeout>;
+    /** Occurrences not yet included in a delivered report */
+    count: number;
+    firstSeen?: string;
+    /** Delivery times within the current rate limit interval */
+    sent: number[];
+    /** When the fingerprint last occurred */
+    lastSeen: number;
+}
+
+/**
+ * Create a throttle that calls `deliver` with deduplicated, rate limited reports
+ */
+export function createErrorThrottle(
+    config: ThrottleConfig,
+    deliver: (report: ErrorReport) => void
+): ErrorThrottle {
+    const {
+        dedupeWindow = 5000,
+        maxPerFingerprint = 10,
+        maxTotal = 30,
+        interval = 60000
+    } = config;
+
+    const states = new Map<string, FingerprintState>();
+    let sentTotal: number[] = [];
+
+    const prune = (times: number[], now: number) => times.filter(time => now - time < interval);
+
+    // Forget fingerprints that are neither pending nor rate limited any more.
+    // Occurrences dropped by the rate limit are forgotten with them.
+    const removeExpired = (now: number) => {
+        for (const [fingerprint, state] of states) {
+            if (!state.pending &&
+                now - state.lastSeen >= Math.max(dedupeWindow, interval) &&
+                prune(state.sent, now).length === 0) {
+                states.delete(fingerprint);
+            }
+        }
+    };
+
+    const release = (fingerprint: string) => {
+        const state = states.get(fingerprint);
+        if (!state || !state.pending) {
+            return;
+        }
+
+        const report = state.pending;
+        state.pending = undefined;
+        if (state.timer !== undefined) {
+            clearTimeout(state.timer);
+            state.timer = undefined;
+        }
+
+        const now = Date.now();
+        state.sent = prune(state.sent, now);
+        sentTotal = prune(sentTotal, now);
+
+        // Over the limit: drop the report but keep counting, so the next
+        // delivered report for this fingerprint includes these occurrences
+        if (state.sent.length >= maxPerFingerprint || sentTotal.length >= maxTotal) {
+            return;
+        }
+
+        report.occurrences = state.count;
+        if (state.count > 1 && state.firstSeen) {
+            report.firstSeen = state.firstSeen;
+        }
+        state.count = 0;
+        state.firstSeen = undefined;
+        state.sent.push(now);
+        sentTotal.push(now);
+
+        deliver(report);
+    };
+
+    return {
+        submit(report: ErrorReport) {
+            const fingerprint = report.fingerprint ?? '';
+            const now = Date.now();
+            removeExpired(now);
+
+            let state = states.get(fingerprint);
+            if (!state) {
+                state = { count: 0, sent: [], lastSeen: now };
+                states.set(fingerprint, state);
+            }
+
+            state.count++;
+            state.lastSeen = now;
+            if (!state.firstSeen) {
+                state.firstSeen = report.timestamp;
+            }
+
+            // Already waiting on a report for this fingerprint - merge into it
+            if (state.pending) {
+                return;
+            }
+
+            state.pending = report;
+            if (dedupeWindow > 0) {
+                state.timer = setTimeout(() => release(fingerprint), dedupeWindow);
+            } else {
+                release(fingerprint);
+            }
+        },
+
+        flush() {
+            for (const fingerprint of Array.from(states.keys())) {
+                release(fingerprint);
+            }
+        },
+
+        destroy() {
+            for (const state of states.values()) {
+                if (state.timer !== undefined) {
+                    clearTimeout(state.timer);
+                }
+            }
+            states.clear();
+            sentTotal = [];
+        }
+    };
+}
@@ -0,0 +1,63 @@
+/**
+ * Fingerprint Utility
+ *
+ * Computes a deterministic fingerprint for an error so repeated
+ * occurrences of the same problem can be grouped.
+ */
+
+import { ErrorInfo, StackFrame } from '../types';
+import { parseStack } from './stack-parser';
+
+// Number of stack frames that contribute to the fingerprint
+const FINGERPRINT_FRAMES = 5;
+
+/**
+ * Replace the variable parts of an error message (ids, numbers, urls,
+ * quoted values) with placeholders
+ */
+export function getMessageTemplate(message: string): string {
+    return message
+        .replace(/\b[a-z][a-z0-9+.-]*:\/\/[^\s'"]+/gi, '<url>')
+        .replace(/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, '<uuid>')
+        .replace(/\b0x[0-9a-f]+\b|\b[0-9a-f]{8,}\b/gi, '<hex>')
+        .replace(/(["'`])(?:(?!\1).)*\1/g, '<str>')
+        .replace(/\d+(\.\d+)?/g, '<n>')
+        .trim();
+}
+
+/**
+ * Get the top stack frames in a normalized form (no columns or query
+ * strings). App frames are preferred, so the same bug reached through
+ * different library code groups together.
+ */
+function getTopFrames(frames: StackFrame[]): string[] {
+    const appFrames = frames.filter(frame => frame.inApp);
+
+    return (appFrames.length > 0 ? appFrames : frames)
+        .slice(0, FINGERPRINT_FRAMES)
+        .map(frame => `${frame.function ?? '?'}@${(frame.file ?? '').replace(/[?#].*$/, '')}:${frame.line ?? ''}`);
+}
+
+/**
+ * FNV-1a 32-bit hash, returned as 8 hex characters
+ */
+function hash(input: string): string {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < input.length; i++) {
+        h ^= input.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    return (h >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Compute a fingerprint from the error type, message template and top stack frames
+ */
+export function getErrorFingerprint(error: ErrorInfo): string {
+    const parts = [
+        error.type,
+        getMessageTemplate(error.message),
+        ...getTopFrames(error.frames ?? parseStack(error.stack))
+    ];
+    return hash(parts.join('\n'));
+}
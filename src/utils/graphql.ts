@@ -0,0 +1,215 @@
+/**
+ * GraphQL Utility
+ *
+ * Recognises GraphQL requests (single, batched and persisted queries, sent
+ * as POST bodies or GET parameters) and extracts errors from responses.
+ */
+
+import { GraphQLInfo, GraphQLOperationInfo, GraphQLErrorInfo } from '../types';
+import { sanitizeData, redactSensitiveData } from './sanitizer';
+
+// Responses are read up to this size to find `errors`
+export const GRAPHQL_RESPONSE_LIMIT = 1024 * 1024;
+
+const MAX_ERRORS = 10;
+const MAX_ERROR_LENGTH = 500;
+const MAX_VARIABLES_DEPTH = 10;
+
+const OPERATION_PATTERN = /^\s*(query|mutation|subscription)\b\s*([_A-Za-z][_0-9A-Za-z]*)?/;
+
+type GraphQLPayload = {
+    query?: unknown;
+    operationName?: unknown;
+    variables?: unknown;
+    extensions?: unknown;
+};
+
+/**
+ * Check that a query parameter holds a GraphQL document rather than,
+ * say, a search term
+ */
+function isGraphQLDocument(query: string): boolean {
+    return /^\s*(\{|(query|mutation|subscription|fragment)\b)/.test(stripComments(query));
+}
+
+function isGraphQLPayload(value: unknown): value is GraphQLPayload {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return false;
+    }
+    const payload = value as GraphQLPayload;
+    if (typeof payload.query === 'string') {
+        return isGraphQLDocument(payload.query);
+    }
+    // Automatic persisted queries send only a hash
+    const extensions = payload.extensions as { persistedQuery?: unknown } | undefined;
+    return Boolean(extensions && typeof extensions === 'object' && extensions.persistedQuery);
+}
+
+/**
+ * Remove comments so the first definition can be found
+ */
+function stripComments(query: string): string {
+    return query.replace(/#[^\n\r]*/g, '');
+}
+
+/**
+ * Find the type and name of the operation that will run
+ */
+function getOperation(query: string | undefined, operationName: string | undefined): Pick<GraphQLOperationInfo, 'operationName' | 'operationType'> {
+    if (query === undefined) {
+        return { operationName };
+    }
+
+    const source = stripComments(query);
+
+    // A named operation in a document with several definitions
+    if (operationName && /^[_A-Za-z][_0-9A-Za-z]*$/.test(operationName)) {
+        const named = new RegExp(`\\b(query|mutation|subscription)\\s+${operationName}\\b`).exec(source);
+        if (named) {
+            return { operationName, operationType: named[1] as GraphQLOperationInfo['operationType'] };
+        }
+    }
+
+    const match = OPERATION_PATTERN.exec(source);
+    if (match) {
+        return {
+            operationName: operationName ?? match[2],
+            operationType: match[1] as GraphQLOperationInfo['operationType']
+        };
+    }
+
+    // Shorthand `{ ... }` is always a query
+    return { operationName, operationType: source.trim().startsWith('{') ? 'query' : undefined };
+}
+
+function toOperation(payload: GraphQLPayload, keyPatterns: string[]): GraphQLOperationInfo {
+    const operation: GraphQLOperationInfo = getOperation(
+        typeof payload.query === 'string' ? payload.query : undefined,
+        typeof payload.operationName === 'string' ? payload.operationName : undefined
+    );
+
+    if (payload.variables && typeof payload.variables === 'object' && !Array.isArray(payload.variables)) {
+        operation.variables = sanitizeData(payload.variables as Record<string, unknown>, keyPatterns, MAX_VARIABLES_DEPTH);
+    }
+
+    return operation;
+}
+
+/**
+ * Parse a request as GraphQL. Returns undefined for anything else.
+ */
+export function parseGraphQLRequest(
+    url: string,
+    method: string,
+    body: string | undefined,
+    keyPatterns: string[]
+): GraphQLInfo | undefined {
+    if (method === 'GET') {
+        try {
+            const params = new URL(url, window.location.href).searchParams;
+            const query = params.get('query');
+            if (query === null || !isGraphQLDocument(query)) {
+                return undefined;
+            }
+            let variables: unknown;
+            try {
+                variables = JSON.parse(params.get('variables') ?? 'null');
+            } catch {
+                // Unparseable variables are left out
+            }
+            return {
+                operations: [toOperation({ query, operationName: params.get('operationName') ?? undefined, variables }, keyPatterns)]
+            };
+        } catch {
+            return undefined;
+        }
+    }
+
+    // Cheap check before parsing every JSON body
+    if (!body || !/"(query|extensions)"/.test(body)) {
+        return undefined;
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(body);
+    } catch {
+        return undefined;
+    }
+
+    const payloads = Array.isArray(parsed) ? parsed : [parsed];
+    if (payloads.length === 0 || !payloads.every(isGraphQLPayload)) {
+        return undefined;
+    }
+
+    return { operations: payloads.map(payload => toOperation(payload, keyPatterns)) };
+}
+
+function toErrors(value: unknown, operationName: string | undefined): GraphQLErrorInfo[] {
+    if (!Array.isArray(value)) {
+        return [];
+    }
+
+    return value.map(item => {
+        const entry = item && typeof item === 'object' ? item as { message?: unknown; path?: unknown } : {};
+        const message = typeof entry.message === 'string' ? entry.message : String(entry.message ?? 'Unknown GraphQL error');
+        const error: GraphQLErrorInfo = {
+            message: redactSensitiveData(message.slice(0, MAX_ERROR_LENGTH))
+        };
+        if (Array.isArray(entry.path)) {
+            error.path = entry.path.filter((part): part is string | number =>
+                typeof part === 'string' || typeof part === 'number'
+            );
+        }
+        if (operationName) {
+            error.operationName = operationName;
+        }
+        return error;
+    });
+}
+
+/**
+ * Collect the `errors` of a GraphQL response (or batch of responses)
+ */
+export function getGraphQLErrors(response: unknown, info: GraphQLInfo): GraphQLErrorInfo[] {
+    const results = Array.isArray(response) ? response : [response];
+    const batched = info.operations.length > 1;
+
+    const errors = results.flatMap((result, index) =>
+        result && typeof result === 'object'
+            ? toErrors((result as { errors?: unknown }).errors, batched ? info.operations[index]?.operationName : undefined)
+            : []
+    );
+
+    return errors.slice(0, MAX_ERRORS);
+}
+
+/**
+ * Parse a GraphQL response body and return its errors
+ */
+export function parseGraphQLResponse(text: string, info: GraphQLInfo): GraphQLErrorInfo[] {
+    try {
+        return getGraphQLErrors(JSON.parse(text), info);
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Summarise GraphQL errors for the action's `error` field
+ */
+export function describeGraphQLErrors(errors: GraphQLErrorInfo[]): string {
+    const [first] = errors;
+    const path = first.path ? ` (${first.path.join('.')})` : '';
+    const more = errors.length > 1 ? ` (+${errors.length - 1} more)` : '';
+    return `GraphQL error: ${first.message}${path}${more}`;
+}
+
+/**
+ * Label the operations of a request, e.g. "query GetUser"
+ */
+export function getGraphQLLabel(info: GraphQLInfo): string {
+    return info.operations
+        .map(operation => [operation.operationType, operation.operationName].filter(Boolean).join(' ') || 'anonymous')
+        .join(', ');
+}
@@ -0,0 +1,175 @@
+/**
+ * Network Body Utility
+ *
+ * Reads, size-caps and sanitizes request and response bodies for the
+ * network detector.
+ */
+
+import { TrackNetworkConfig } from '../types';
+import { isSensitiveKey, sanitizeData, redactSensitiveData } from './sanitizer';
+
+export interface BodyCaptureOptions {
+    maxBodySize: number;
+    bodyUrls?: (string | RegExp)[];
+    bodyContentTypes: string[];
+    /** Key patterns masked in bodies (`sanitize` option plus `sanitizeKeys`) */
+    keyPatterns: string[];
+}
+
+const DEFAULT_MAX_BODY_SIZE = 10 * 1024;
+const DEFAULT_CONTENT_TYPES = ['json', 'text/plain'];
+// `card` is anchored so keys like `cardinality` and `scorecard` stay readable
+const DEFAULT_SANITIZE_KEYS = ['^card([-_]?(number|holder|expiry|cvc|cvv))?$', 'authorization', 'cookie', 'session'];
+
+// Bodies are usually deeper than custom action data
+const MAX_BODY_DEPTH = 10;
+
+const TRUNCATED_SUFFIX = '… [truncated]';
+
+/**
+ * Resolve body capture options from the network tracking config
+ */
+export function getBodyCaptureOptions(config: TrackNetworkConfig, sanitizePatterns: string[]): BodyCaptureOptions {
+    return {
+        maxBodySize: config.maxBodySize ?? DEFAULT_MAX_BODY_SIZE,
+        bodyUrls: config.bodyUrls,
+        bodyContentTypes: config.bodyContentTypes ?? DEFAULT_CONTENT_TYPES,
+        keyPatterns: [...sanitizePatterns, ...(config.sanitizeKeys ?? DEFAULT_SANITIZE_KEYS)]
+    };
+}
+
+/**
+ * Check if bodies should be captured for a URL
+ */
+export function isBodyUrl(url: string, options: BodyCaptureOptions): boolean {
+    if (!options.bodyUrls) {
+        return true;
+    }
+    return options.bodyUrls.some(pattern =>
+        typeof pattern === 'string' ? url.includes(pattern) : pattern.test(url)
+    );
+}
+
+/**
+ * Check if a content type is one whose body is captured. Bodies without a
+ * content type are treated as plain text.
+ */
+export function isBodyContentType(contentType: string | null, options: BodyCaptureOptions): boolean {
+    const type = (contentType || 'text/plain').toLowerCase();
+    return options.bodyContentTypes.some(allowed => type.includes(allowed.toLowerCase()));
+}
+
+/**
+ * Mask `"key": value` pairs with sensitive keys in JSON-like text that
+ * could not be parsed (e.g. because it was truncated)
+ */
+function redactJsonText(text: string, keyPatterns: string[]): string {
+    return text.replace(
+        /"((?:[^"\\]|\\.){1,100})"(\s*:\s*)("(?:[^"\\]|\\.)*"?|[^,}\]\s]+)/g,
+        (match, key: string, separator: string) =>
+            isSensitiveKey(key, keyPatterns) ? `"${key}"${separator}"[SANITIZED]"` : match
+    );
+}
+
+/**
+ * Turn body text into the value stored on the action: parsed and
+ * sanitized JSON when possible, otherwise redacted (and possibly
+ * truncated) text
+ */
+export function formatBody(
+    text: string,
+    contentType: string | null,
+    options: BodyCaptureOptions,
+    truncated: boolean = false
+): unknown {
+    const isTruncated = truncated || text.length > options.maxBodySize;
+
+    if (!isTruncated && contentType?.toLowerCase().includes('json')) {
+        try {
+            return sanitizeData(JSON.parse(text), options.keyPatterns, MAX_BODY_DEPTH);
+        } catch {
+            // Not valid JSON - fall back to text
+        }
+    }
+
+    const redacted = redactSensitiveData(redactJsonText(text.slice(0, options.maxBodySize), options.keyPatterns));
+    return isTruncated ? redacted + TRUNCATED_SUFFIX : redacted;
+}
+
+/**
+ * Format a structured body (form fields or an already-parsed response)
+ */
+export function formatStructuredBody(data: unknown, options: BodyCaptureOptions): unknown {
+    const sanitized = sanitizeData(data, options.keyPatterns, MAX_BODY_DEPTH);
+    let text: string | undefined;
+    try {
+        text = JSON.stringify(sanitized);
+    } catch {
+        return undefined;
+    }
+    if (text !== undefined && text.length > options.maxBodySize) {
+        return text.slice(0, options.maxBodySize) + TRUNCATED_SUFFIX;
+    }
+    return sanitized;
+}
+
+/**
+ * Format a fetch/XHR request body. Returns undefined for bodies that are
+ * not captured (binary data, streams, disallowed content types).
+ */
+export function formatRequestBody(
+    body: unknown,
+    contentType: string | null,
+    options: BodyCaptureOptions
+): unknown {
+    if (body === null || body === undefined) {
+        return undefined;
+    }
+    if (typeof body === 'string') {
+        return isBodyContentType(contentType, options) ? formatBody(body, contentType, options) : undefined;
+    }
+    if (typeof URLSearchParams !== 'undefined' && body instanceof URLSearchParams) {
+        return formatStructuredBody(Object.fromEntries(body.entries()), options);
+    }
+    if (typeof FormData !== 'undefined' && body instanceof FormData) {
+        const fields: Record<string, string> = {};
+        body.forEach((value, key) => {
+            fields[key] = typeof value === 'string' ? value : '[File]';
+        });
+        return formatStructuredBody(fields, options);
+    }
+    return undefined;
+}
+
+/**
+ * Read up to `maxBodySize` characters from a response without touching
+ * the original: the clone's stream is cancelled once the cap is reached.
+ */
+export async function readResponseText(
+    response: Response,
+    maxBodySize: number
+): Promise<{ text: string; truncated: boolean }> {
+    const clone = response.clone();
+
+    if (!clone.body || typeof TextDecoder === 'undefined') {
+        const text = await clone.text();
+        return { text, truncated: text.length > maxBodySize };
+    }
+
+    const reader = clone.body.getReader();
+    const decoder = new TextDecoder();
+    let text = '';
+
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+            text += decoder.decode();
+            return { text, truncated: false };
+        }
+        text += decoder.decode(value, { stream: true });
+        if (text.length > maxBodySize) {
+            reader.cancel().catch(() => undefined);
+            return { text, truncated: true };
+        }
+    }
+}
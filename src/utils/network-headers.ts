@@ -0,0 +1,86 @@
+/**
+ * Network Headers Utility
+ *
+ * Header allowlisting and correlation ID generation for the network
+ * detector.
+ */
+
+// Never recorded in clear, even when allowlisted
+const REDACTED_HEADERS = ['authorization', 'proxy-authorization', 'cookie', 'set-cookie'];
+
+export interface Correlation {
+    /** Value sent in the header */
+    headerValue: string;
+    /** ID stored on the action */
+    id: string;
+}
+
+/**
+ * Pick allowlisted headers using a case-insensitive getter.
+ * Returns undefined when none of the headers are present.
+ */
+export function pickHeaders(
+    getHeader: (name: string) => string | null | undefined,
+    allowlist: string[]
+): Record<string, string> | undefined {
+    let result: Record<string, string> | undefined;
+
+    for (const name of allowlist) {
+        const key = name.toLowerCase();
+        const value = getHeader(key);
+        if (value === null || value === undefined) {
+            continue;
+        }
+        result = result ?? {};
+        result[key] = REDACTED_HEADERS.includes(key) ? '[REDACTED]' : value;
+    }
+
+    return result;
+}
+
+/**
+ * Check if a URL points to the current page's origin
+ */
+export function isSameOrigin(url: string): boolean {
+    try {
+        return new URL(url, window.location.href).origin === window.location.origin;
+    } catch {
+        return false;
+    }
+}
+
+function randomHex(bytes: number): string {
+    const values = new Uint8Array(bytes);
+    if (typeof crypto !== 'undefined' && crypto.getRandomValues) {
+        crypto.getRandomValues(values);
+    } else {
+        for (let i = 0; i < bytes; i++) {
+            values[i] = Math.floor(Math.random() * 256);
+        }
+    }
+    return Array.from(values, value => value.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Generate a correlation ID for a header. `traceparent` gets a W3C Trace
+ * Context value whose trace id becomes the stored ID.
+ */
+export function createCorrelation(headerName: string): Correlation {
+    if (headerName.toLowerCase() === 'traceparent') {
+        const traceId = randomHex(16);
+        return { headerValue: `00-${traceId}-${randomHex(8)}-01`, id: traceId };
+    }
+    const id = randomHex(16);
+    return { headerValue: id, id };
+}
+
+/**
+ * Get the ID stored on the action for a header value the app set itself
+ */
+export function getCorrelationId(headerName: string, headerValue: string): string {
+    if (headerName.toLowerCase() === 'traceparent') {
+        const traceId = headerValue.split('-')[1];
+        return traceId || headerValue;
+    }
+    return headerValue;
+}
@@ -4,54 +4,178 @@
  * Detects React component names from DOM elements by inspecting React fiber nodes.
  */
 
-export interface ReactComponentInfo {
-    name: string;
-    path: string;
+import { ComponentInfo, ComponentSnapshot, ComponentStateConfig } from '../types';
+import { toComponentInfo } from './component-info';
+import { serializeValue } from './serialize';
+import { sanitizeData, redactSensitiveData } from './sanitizer';
+
+export interface ReactSnapshotOptions extends ComponentStateConfig {
+    /** Patterns from the `sanitize` option, applied to prop and state keys */
+    sanitizePatterns?: string[];
 }
 
+const REACT_ELEMENT_TYPES = [Symbol.for('react.element'), Symbol.for('react.transitional.element')];
+const MAX_SNAPSHOT_STRING_LENGTH = 100;
+
 /**
  * Get React component information for a DOM element
  */
-export function getReactComponentInfo(element: Element): ReactComponentInfo | null {
+export function getReactComponentInfo(element: Element): ComponentInfo | null {
     try {
         const fiber = getReactFiber(element);
         if (!fiber) {
             return null;
         }
 
-        const componentPath: string[] = [];
-        let componentName: string | null = null;
+        const names: string[] = [];
         let currentFiber = fiber;
 
         // Walk up the fiber tree to find component names
         while (currentFiber) {
             const name = getFiberComponentName(currentFiber);
             if (name) {
-                if (!componentName) {
-                    componentName = name;
-                }
-                // Don't add duplicates and limit path length
-                if (componentPath.length < 5 && !componentPath.includes(name)) {
-                    componentPath.unshift(name);
-                }
+                names.push(name);
             }
             currentFiber = currentFiber.return;
         }
 
-        if (componentName) {
-            return {
-                name: componentName,
-                path: componentPath.join(' > ')
-            };
+        return toComponentInfo(names);
+    } catch {
+        // React might not be present or fiber structure might be different
+        return null;
+    }
+}
+
+/**
+ * Get a shallow snapshot of the props (and optionally state) of the
+ * nearest named React component of a DOM element
+ */
+export function getReactComponentSnapshot(element: Element, options: ReactSnapshotOptions = {}): ComponentSnapshot | null {
+    const { props = true, state = false, maxKeys = 20, maxSize = 2000, sanitizePatterns = [] } = options;
+
+    try {
+        let fiber = getReactFiber(element);
+        let name = getFiberComponentName(fiber);
+        while (fiber && !name) {
+            fiber = fiber.return;
+            name = getFiberComponentName(fiber);
+        }
+        if (!fiber || !name) {
+            return null;
+        }
+
+        const snapshot: ComponentSnapshot = { component: name };
+        if (props && fiber.memoizedProps && typeof fiber.memoizedProps === 'object') {
+            snapshot.props = summarizeEntries(fiber.memoizedProps, maxKeys);
+        }
+        if (state) {
+            const fiberState = getFiberState(fiber, maxKeys);
+            if (fiberState !== undefined) {
+                snapshot.state = fiberState;
+            }
         }
 
-        return null;
+        return limitSnapshotSize(sanitizeData(snapshot, sanitizePatterns), maxSize);
     } catch {
-        // React might not be present or fiber structure might be different
         return null;
     }
 }
 
+/**
+ * Get useState/useReducer values of a function component, or the state
+ * of a class component
+ */
+function getFiberState(fiber: any, maxKeys: number): unknown[] | Record<string, unknown> | undefined {
+    const memoizedState = fiber.memoizedState;
+    if (!memoizedState || typeof memoizedState !== 'object') {
+        return undefined;
+    }
+
+    if (fiber.type?.prototype?.isReactComponent) {
+        return summarizeEntries(memoizedState, maxKeys);
+    }
+
+    // Function components keep a linked list of hooks; only state hooks have an update queue
+    const values: unknown[] = [];
+    let hook = 'next' in memoizedState ? memoizedState : null;
+    while (hook && values.length < maxKeys) {
+        if (hook.queue) {
+            values.push(summarizeValue(hook.memoizedState));
+        }
+        hook = hook.next;
+    }
+    return values.length > 0 ? values : undefined;
+}
+
+function summarizeEntries(object: Record<string, unknown>, maxKeys: number): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    const keys = Object.keys(object);
+    for (const key of keys.slice(0, maxKeys)) {
+        result[key] = summarizeValue(object[key]);
+    }
+    if (keys.length > maxKeys) {
+        result['…'] = `${keys.length - maxKeys} more keys`;
+    }
+    return result;
+}
+
+/**
+ * Summarise a prop or state value one level deep, describing functions
+ * and React elements instead of serializing them
+ */
+function summarizeValue(value: unknown): unknown {
+    if (isReactElement(value)) {
+        return `<${getElementTypeName(value.type)} />`;
+    }
+    if (Array.isArray(value) && value.some(isReactElement)) {
+        return value.map(item => isReactElement(item)
+            ? `<${getElementTypeName(item.type)} />`
+            : serializeValue(item, { maxDepth: 0, maxStringLength: MAX_SNAPSHOT_STRING_LENGTH }));
+    }
+    const summary = serializeValue(value, { maxDepth: 1, maxEntries: 10, maxStringLength: MAX_SNAPSHOT_STRING_LENGTH });
+    // Hook state has no keys to sanitize by, so mask card and SSN numbers in the text itself
+    return typeof summary === 'string' ? redactSensitiveData(summary) : summary;
+}
+
+function isReactElement(value: unknown): value is { type: unknown } {
+    return typeof value === 'object' && value !== null && REACT_ELEMENT_TYPES.includes((value as any).$$typeof);
+}
+
+function getElementTypeName(type: any): string {
+    if (typeof type === 'string') {
+        return type;
+    }
+    if (typeof type === 'symbol') {
+        return type.description?.replace(/^react\./, '') || 'Fragment';
+    }
+    return type?.displayName || type?.name || type?.render?.name || type?.type?.name || 'Component';
+}
+
+/**
+ * Drop the last props and state entries until the snapshot fits
+ */
+function limitSnapshotSize(snapshot: ComponentSnapshot, maxSize: number): ComponentSnapshot {
+    const pop = (entries: unknown[] | Record<string, unknown> | undefined): boolean => {
+        if (Array.isArray(entries)) {
+            return entries.splice(-1).length > 0;
+        }
+        const keys = entries ? Object.keys(entries) : [];
+        if (entries && keys.length > 0) {
+            delete entries[keys[keys.length - 1]];
+            return true;
+        }
+        return false;
+    };
+
+    while (JSON.stringify(snapshot).length > maxSize) {
+        if (!pop(snapshot.state) && !pop(snapshot.props)) {
+            break;
+        }
+        snapshot.truncated = true;
+    }
+    return snapshot;
+}
+
 /**
  * Find the React fiber node attached to a DOM element
  */
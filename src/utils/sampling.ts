@@ -0,0 +1,64 @@
+/**
+ * Sampling Utility
+ *
+ * Session and report sampling decisions.
+ */
+
+import { ErrorReport, SamplingConfig, SamplingRule } from '../types';
+
+/**
+ * Randomly decide whether something is sampled in at the given rate
+ */
+export function isSampled(rate: number): boolean {
+    if (rate >= 1) return true;
+    if (rate <= 0) return false;
+    return Math.random() < rate;
+}
+
+/**
+ * Check a string against a rule condition. Strings match exactly or by
+ * substring depending on `exact`; regexes are tested.
+ */
+function matches(value: string, condition: string | RegExp | undefined, exact: boolean): boolean {
+    if (condition === undefined) {
+        return true;
+    }
+    if (typeof condition === 'string') {
+        return exact ? value === condition : value.includes(condition);
+    }
+    return condition.test(value);
+}
+
+/**
+ * Find the first sampling rule matching a report
+ */
+function findRule(report: ErrorReport, rules: SamplingRule[]): { rule: SamplingRule; index: number } | null {
+    for (let index = 0; index < rules.length; index++) {
+        const rule = rules[index];
+        if (
+            matches(report.error.type, rule.errorType, true) &&
+            matches(report.error.message, rule.message, false) &&
+            matches(report.context.url, rule.url, false)
+        ) {
+            return { rule, index };
+        }
+    }
+    return null;
+}
+
+/**
+ * Get the report sample rate for a report, and the rule it came from
+ */
+export function getReportSampleRate(
+    report: ErrorReport,
+    config: SamplingConfig
+): { rate: number; rule?: string } {
+    const match = config.rules ? findRule(report, config.rules) : null;
+    if (match) {
+        return {
+            rate: match.rule.sampleRate,
+            rule: match.rule.name ?? String(match.index)
+        };
+    }
+    return { rate: config.reportSampleRate ?? 1 };
+}
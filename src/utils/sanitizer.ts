@@ -41,6 +41,17 @@ const SENSITIVE_NAME_PATTERNS = [
     /pin/i
 ];
 
+// Patterns for object keys, matched against the key in snake_case. Short
+// names must be whole words, so `shipping` or `opinion` don't match `pin`.
+const SENSITIVE_KEY_PATTERNS = [
+    /password|passwd|secret|token/,
+    /api_?key/,
+    /credit_?card/,
+    /card_?number/,
+    /social_?security/,
+    /(^|_)(cvv|cvc|csc|ssn|pin)(_|$)/
+];
+
 // Regex patterns for sensitive data in values
 const CREDIT_CARD_PATTERN = /\b(?:\d[ -]*?){13,16}\b/;
 const SSN_PATTERN = /\b\d{3}[-.]?\d{2}[-.]?\d{4}\b/;
@@ -116,6 +127,16 @@ export function containsSensitiveData(value: string): boolean {
     return false;
 }
 
+/**
+ * Replace credit card and SSN matches inside a longer text, keeping the
+ * rest of the text readable
+ */
+export function redactSensitiveData(text: string): string {
+    return text
+        .replace(new RegExp(CREDIT_CARD_PATTERN.source, 'g'), '[SANITIZED]')
+        .replace(new RegExp(SSN_PATTERN.source, 'g'), '[SANITIZED]');
+}
+
 /**
  * Sanitize a value by replacing it with a placeholder
  */
@@ -157,3 +178,116 @@ export function getSafeInputValue(
         isSanitized: false
     };
 }
+
+/**
+ * Check if an object key looks like it holds sensitive data
+ */
+export function isSensitiveKey(key: string, customPatterns: string[] = []): boolean {
+    // accessToken, access-token and ACCESS_TOKEN all become access_token
+    const normalized = key
+        .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+        .replace(/[^a-zA-Z0-9]+/g, '_')
+        .toLowerCase();
+
+    for (const pattern of SENSITIVE_KEY_PATTERNS) {
+        if (pattern.test(normalized)) {
+            return true;
+        }
+    }
+
+    for (const pattern of customPatterns) {
+        // CSS selectors only apply to elements
+        if (pattern.startsWith('.') || pattern.startsWith('#') || pattern.startsWith('[')) {
+            continue;
+        }
+        try {
+            if (new RegExp(pattern, 'i').test(key)) {
+                return true;
+            }
+        } catch {
+            // Invalid pattern, skip
+        }
+    }
+
+    return false;
+}
+
+/**
+ * Recursively sanitize structured data (e.g. custom action data).
+ * Values under sensitive keys and values matching credit card or SSN
+ * patterns are replaced with `[SANITIZED]`. Dates become ISO strings,
+ * Maps become objects and Sets become arrays.
+ */
+export function sanitizeData<T>(data: T, customPatterns: string[] = [], maxDepth: number = 5): T {
+    // Objects on the path from the root to the current value, so an object
+    // referenced twice (but not from itself) is walked both times
+    const ancestors = new WeakSet<object>();
+
+    const walkEntries = (entries: [string, unknown][], depth: number): Record<string, unknown> => {
+        const result: Record<string, unknown> = {};
+        for (const [key, item] of entries) {
+            result[key] = isSensitiveKey(key, customPatterns) ? '[SANITIZED]' : walk(item, depth + 1);
+        }
+        return result;
+    };
+
+    const walk = (value: unknown, depth: number): unknown => {
+        if (typeof value === 'string') {
+            return containsSensitiveData(value) ? '[SANITIZED]' : value;
+        }
+        if (value === null || typeof value !== 'object') {
+            return value;
+        }
+        if (value instanceof Date) {
+            return Number.isNaN(value.getTime()) ? 'Invalid Date' : value.toISOString();
+        }
+        if (ancestors.has(value)) {
+            return '[Circular]';
+        }
+        if (depth >= maxDepth) {
+            return Array.isArray(value) ? '[Array]' : '[Object]';
+        }
+
+        ancestors.add(value);
+        try {
+            if (Array.isArray(value) || value instanceof Set) {
+                return Array.from(value, item => walk(item, depth + 1));
+            }
+            if (value instanceof Map) {
+                return walkEntries(Array.from(value, ([key, item]) => [String(key), item]), depth);
+            }
+            return walkEntries(Object.entries(value), depth);
+        } finally {
+            ancestors.delete(value);
+        }
+    };
+
+    return walk(data, 0) as T;
+}
+
+/**
+ * Sanitize URL to remove sensitive query parameters
+ */
+export function sanitizeUrl(url: string): string {
+    try {
+        const parsed = new URL(url, window.location.origin);
+
+        // List of sensitive parameter names to remove
+        const sensitiveParams = [
+            'token', 'api_key', 'apikey', 'key', 'secret',
+            'password', 'passwd', 'auth', 'authorization',
+            'access_token', 'refresh_token'
+        ];
+
+        for (const param of sensitiveParams) {
+            if (parsed.searchParams.has(param)) {
+                parsed.searchParams.set(param, '[REDACTED]');
+            }
+        }
+
+        // Return path + sanitized query string
+        return parsed.pathname + parsed.search;
+    } catch {
+        return url;
+    }
+}
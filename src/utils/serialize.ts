@@ -0,0 +1,115 @@
+/**
+ * Value Serializer
+ *
+ * Converts arbitrary values (logged objects, errors, DOM nodes, Maps...)
+ * into plain JSON values, with depth, size and cycle limits.
+ */
+
+export interface SerializeValueOptions {
+    /** Nesting depth before objects are replaced with a placeholder (default: 3) */
+    maxDepth?: number;
+    /** Maximum array items or object keys kept per level (default: 20) */
+    maxEntries?: number;
+    /** Maximum string length (default: 500) */
+    maxStringLength?: number;
+}
+
+/**
+ * Serialize a value to something JSON.stringify can always handle
+ */
+export function serializeValue(value: unknown, options: SerializeValueOptions = {}): unknown {
+    const { maxDepth = 3, maxEntries = 20, maxStringLength = 500 } = options;
+    const seen = new WeakSet<object>();
+
+    const truncate = (text: string) =>
+        text.length > maxStringLength ? `${text.slice(0, maxStringLength)}…` : text;
+
+    const walk = (item: unknown, depth: number): unknown => {
+        switch (typeof item) {
+            case 'string':
+                return truncate(item);
+            case 'number':
+                return Number.isFinite(item) ? item : String(item);
+            case 'boolean':
+                return item;
+            case 'undefined':
+                return '[undefined]';
+            case 'bigint':
+                return `${item}n`;
+            case 'symbol':
+                return item.toString();
+            case 'function':
+                return `[Function ${item.name || 'anonymous'}]`;
+        }
+
+        if (item === null) {
+            return null;
+        }
+
+        const object = item as object;
+
+        if (object instanceof Error) {
+            return { name: object.name, message: truncate(object.message) };
+        }
+        if (object instanceof Date) {
+            return isNaN(object.getTime()) ? 'Invalid Date' : object.toISOString();
+        }
+        if (object instanceof RegExp) {
+            return object.toString();
+        }
+        if (typeof Element !== 'undefined' && object instanceof Element) {
+            const id = object.id ? `#${object.id}` : '';
+            return `<${object.localName}${id}>`;
+        }
+
+        if (seen.has(object)) {
+            return '[Circular]';
+        }
+        if (depth >= maxDepth) {
+            return Array.isArray(object) ? `[Array(${object.length})]` : '[Object]';
+        }
+        seen.add(object);
+
+        const limit = <T>(entries: T[], total: number, more: (count: number) => T): T[] =>
+            total > maxEntries ? [...entries.slice(0, maxEntries), more(total - maxEntries)] : entries;
+
+        if (Array.isArray(object)) {
+            return limit(
+                object.slice(0, maxEntries).map(entry => walk(entry, depth + 1)),
+                object.length,
+                count => `… ${count} more`
+            );
+        }
+        if (object instanceof Map) {
+            const entries = Array.from(object.entries()).slice(0, maxEntries)
+                .map(([key, entry]) => [walk(key, depth + 1), walk(entry, depth + 1)]);
+            return { '[Map]': limit<unknown>(entries, object.size, count => `… ${count} more`) };
+        }
+        if (object instanceof Set) {
+            const entries = Array.from(object).slice(0, maxEntries).map(entry => walk(entry, depth + 1));
+            return { '[Set]': limit(entries, object.size, count => `… ${count} more`) };
+        }
+
+        const result: Record<string, unknown> = {};
+        let keys: string[];
+        try {
+            keys = Object.keys(object);
+        } catch {
+            return '[Object]';
+        }
+        for (const key of keys.slice(0, maxEntries)) {
+            try {
+                result[key] = walk((object as Record<string, unknown>)[key], depth + 1);
+            } catch {
+                // Throwing getters
+                result[key] = '[Unreadable]';
+            }
+        }
+        if (keys.length > maxEntries) {
+            result['…'] = `${keys.length - maxEntries} more keys`;
+        }
+        return result;
+    };
+
+    return walk(value, 0);
+}
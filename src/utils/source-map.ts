@@ -0,0 +1,225 @@
+/**
+ * Source Map
+ *
+ * Minimal source map (v3) decoder: maps generated positions back to
+ * original sources, including index maps with sections.
+ */
+
+export interface RawSourceMap {
+    version: number;
+    file?: string;
+    sourceRoot?: string;
+    sources?: (string | null)[];
+    sourcesContent?: (string | null)[];
+    names?: string[];
+    mappings?: string;
+    sections?: {
+        offset: { line: number; column: number };
+        map: RawSourceMap;
+    }[];
+}
+
+export interface OriginalPosition {
+    source: string;
+    /** 1-based line */
+    line: number;
+    /** 0-based column */
+    column: number;
+    name?: string;
+}
+
+export interface SourceMap {
+    /**
+     * Find the original position of a generated position (1-based line,
+     * 0-based column), or null if it isn't mapped
+     */
+    originalPositionFor(line: number, column: number): OriginalPosition | null;
+    /** Get the original source text embedded in the map */
+    sourceContentFor(source: string): string | null;
+}
+
+// [generated column, source index, original line, original column, name index?]
+type Segment = number[];
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const BASE64_VALUES = new Map(Array.from(BASE64, (char, index) => [char, index]));
+
+/**
+ * Decode one comma-separated segment of base64 VLQ values
+ */
+function decodeSegment(segment: string): number[] {
+    const values: number[] = [];
+    let value = 0;
+    let shift = 0;
+
+    for (const char of segment) {
+        const digit = BASE64_VALUES.get(char);
+        if (digit === undefined) {
+            throw new Error(`Invalid base64 VLQ character "${char}"`);
+        }
+        value += (digit & 31) * 2 ** shift;
+        if (digit & 32) {
+            shift += 5;
+            continue;
+        }
+        values.push(value % 2 === 1 ? -Math.floor(value / 2) : value / 2);
+        value = 0;
+        shift = 0;
+    }
+
+    return values;
+}
+
+/**
+ * Decode the mappings string into segments per generated line, with
+ * absolute values, sorted by generated column
+ */
+function decodeMappings(mappings: string): Segment[][] {
+    const lines: Segment[][] = [];
+    let sourceIndex = 0;
+    let originalLine = 0;
+    let originalColumn = 0;
+    let nameIndex = 0;
+
+    for (const line of mappings.split(';')) {
+        const segments: Segment[] = [];
+        let generatedColumn = 0;
+
+        for (const encoded of line.split(',')) {
+            if (!encoded) continue;
+            const fields = decodeSegment(encoded);
+            generatedColumn += fields[0];
+            // Segments with one field have no original position
+            if (fields.length < 4) continue;
+
+            sourceIndex += fields[1];
+            originalLine += fields[2];
+            originalColumn += fields[3];
+            const segment = [generatedColumn, sourceIndex, originalLine, originalColumn];
+            if (fields.length >= 5) {
+                nameIndex += fields[4];
+                segment.push(nameIndex);
+            }
+            segments.push(segment);
+        }
+
+        lines.push(segments.sort((a, b) => a[0] - b[0]));
+    }
+
+    return lines;
+}
+
+function createBasicSourceMap(raw: RawSourceMap): SourceMap {
+    const root = raw.sourceRoot ? raw.sourceRoot.replace(/\/?$/, '/') : '';
+    const sources = (raw.sources ?? []).map(source => source === null ? '' : root + source);
+    const names = raw.names ?? [];
+    const contents = new Map<string, string>();
+    sources.forEach((source, index) => {
+        const content = raw.sourcesContent?.[index];
+        if (typeof content === 'string') {
+            contents.set(source, content);
+        }
+    });
+
+    // Decoded on first lookup; mappings of large bundles are long
+    let lines: Segment[][] | null = null;
+
+    return {
+        originalPositionFor(line, column) {
+            lines = lines ?? decodeMappings(raw.mappings ?? '');
+            const segments = lines[line - 1];
+            if (!segments || segments.length === 0) {
+                return null;
+            }
+
+            // Last segment starting at or before the column
+            let low = 0;
+            let high = segments.length - 1;
+            let found = -1;
+            while (low <= high) {
+                const middle = (low + high) >> 1;
+                if (segments[middle][0] <= column) {
+                    found = middle;
+                    low = middle + 1;
+                } else {
+                    high = middle - 1;
+                }
+            }
+            if (found === -1) {
+                return null;
+            }
+
+            const [, sourceIndex, originalLine, originalColumn, nameIndex] = segments[found];
+            const source = sources[sourceIndex];
+            if (!source) {
+                return null;
+            }
+            const position: OriginalPosition = { source, line: originalLine + 1, column: originalColumn };
+            if (nameIndex !== undefined && names[nameIndex]) {
+                position.name = names[nameIndex];
+            }
+            return position;
+        },
+
+        sourceContentFor(source) {
+            return contents.get(source) ?? null;
+        }
+    };
+}
+
+function createIndexedSourceMap(raw: RawSourceMap): SourceMap {
+    const sections = (raw.sections ?? []).map(section => ({
+        line: section.offset.line,
+        column: section.offset.column,
+        map: parseSourceMap(section.map)
+    }));
+
+    return {
+        originalPositionFor(line, column) {
+            const generatedLine = line - 1;
+            // Last section starting at or before the position
+            let section: typeof sections[number] | undefined;
+            for (const candidate of sections) {
+                if (candidate.line < generatedLine || (candidate.line === generatedLine && candidate.column <= column)) {
+                    section = candidate;
+                } else {
+                    break;
+                }
+            }
+            if (!section) {
+                return null;
+            }
+            return section.map.originalPositionFor(
+                line - section.line,
+                section.line === generatedLine ? column - section.column : column
+            );
+        },
+
+        sourceContentFor(source) {
+            for (const section of sections) {
+                const content = section.map.sourceContentFor(source);
+                if (content !== null) {
+                    return content;
+                }
+            }
+            return null;
+        }
+    };
+}
+
+/**
+ * Parse a source map from its JSON text or object. Throws if the map is
+ * not a valid version 3 source map.
+ */
+export function parseSourceMap(input: string | RawSourceMap): SourceMap {
+    // Maps may start with an XSSI guard: )]}'
+    const raw: RawSourceMap = typeof input === 'string'
+        ? JSON.parse(input.replace(/^\)\]\}'[^\n]*\n/, ''))
+        : input;
+
+    if (!raw || raw.version !== 3) {
+        throw new Error('Unsupported source map version');
+    }
+
+    return raw.sections ? createIndexedSourceMap(raw) : createBasicSourceMap(raw);
+}
@@ -0,0 +1,203 @@
+/**
+ * Stack Parser
+ *
+ * Parses V8 (Chrome, Edge, Node), SpiderMonkey (Firefox) and
+ * JavaScriptCore (Safari) stack traces into structured frames, and
+ * classifies frames as app code or library/extension code.
+ */
+
+import { StackFrame, StackTraceConfig } from '../types';
+
+// Frames from these locations are never app code
+const DEFAULT_LIBRARY_PATTERNS: (string | RegExp)[] = [
+    '/node_modules/',
+    /^(chrome|moz|safari|safari-web|ms-browser)-extension:\/\//,
+    /^webpack\/(bootstrap|runtime)/,
+    '[native code]',
+    '<anonymous>',
+    /^native$/
+];
+
+// V8: "    at fn (file:1:2)", "    at file:1:2", "    at async fn (file:1:2)"
+const V8_FRAME = /^\s*at\s+(.*)$/;
+
+// SpiderMonkey/JavaScriptCore: "fn@file:1:2", "@file:1:2", "global code@file:1:2"
+const GECKO_FRAME = /^\s*([^@]*)@(.+)$/;
+
+// Older JavaScriptCore frames without a function: "file:1:2"
+const BARE_FRAME = /^\s*(\S+:\d+(?::\d+)?)\s*$/;
+
+const LOCATION = /^(.*?):(\d+)(?::(\d+))?$/;
+
+function matchesPattern(file: string, pattern: string | RegExp): boolean {
+    return typeof pattern === 'string' ? file.includes(pattern) : pattern.test(file);
+}
+
+/**
+ * Decide whether a frame's file is app code. With `inAppUrls` configured,
+ * only matching files are in-app; library and extension files never are.
+ */
+export function isInAppFile(file: string | undefined, config: StackTraceConfig = {}): boolean {
+    if (!file) {
+        return false;
+    }
+    const libraryPatterns = [...DEFAULT_LIBRARY_PATTERNS, ...(config.libraryUrls ?? [])];
+    if (libraryPatterns.some(pattern => matchesPattern(file, pattern))) {
+        return false;
+    }
+    if (config.inAppUrls && config.inAppUrls.length > 0) {
+        return config.inAppUrls.some(pattern => matchesPattern(file, pattern));
+    }
+    return true;
+}
+
+/**
+ * Split "file:line:column" into its parts
+ */
+function parseLocation(location: string): Pick<StackFrame, 'file' | 'line' | 'column'> {
+    const match = LOCATION.exec(location.trim());
+    if (!match) {
+        return { file: location.trim() || undefined };
+    }
+    const frame: Pick<StackFrame, 'file' | 'line' | 'column'> = {
+        file: match[1],
+        line: Number(match[2])
+    };
+    if (match[3] !== undefined) {
+        frame.column = Number(match[3]);
+    }
+    return frame;
+}
+
+/**
+ * Find the index of the "(" matching the closing ")" at the end of text
+ */
+function findOpeningParen(text: string): number {
+    let depth = 0;
+    for (let i = text.length - 1; i >= 0; i--) {
+        if (text[i] === ')') {
+            depth++;
+        } else if (text[i] === '(' && --depth === 0) {
+            return i;
+        }
+    }
+    return -1;
+}
+
+function parseV8Frame(rest: string): Omit<StackFrame, 'inApp'> {
+    let name: string | undefined;
+    let location = rest;
+
+    // "fn (location)" - find the parenthesis matching the last one, since
+    // eval locations contain parentheses of their own
+    const open = rest.endsWith(')') ? findOpeningParen(rest) : -1;
+    if (open > 0 && rest[open - 1] === ' ') {
+        name = rest.slice(0, open - 1);
+        location = rest.slice(open + 1, -1);
+    }
+
+    // "eval at fn (file:1:2), <anonymous>:3:4" - use the file that called eval
+    if (location.startsWith('eval at ')) {
+        const caller = /\(([^()]+:\d+:\d+)\)/.exec(location);
+        location = caller ? caller[1] : location;
+    }
+
+    if (name) {
+        name = name.replace(/^async\s+/, '').replace(/\s+\[as [^\]]+\]$/, '');
+    }
+
+    return { ...(name ? { function: name } : {}), ...parseLocation(location) };
+}
+
+function parseGeckoFrame(name: string, location: string): Omit<StackFrame, 'inApp'> {
+    // SpiderMonkey eval frames: "file line 12 > eval:1:2"
+    const evalMatch = /^(.*?) line (\d+) > (eval|Function)/.exec(location);
+    const parsed = evalMatch
+        ? { file: evalMatch[1], line: Number(evalMatch[2]) }
+        : parseLocation(location);
+
+    const functionName = name.trim();
+    return { ...(functionName ? { function: functionName } : {}), ...parsed };
+}
+
+/**
+ * Parse a stack trace into frames, innermost first. Lines that aren't
+ * frames (the message header, blank lines) are skipped.
+ */
+export function parseStack(stack: string | undefined, config: StackTraceConfig = {}): StackFrame[] {
+    if (!stack) {
+        return [];
+    }
+
+    const frames: StackFrame[] = [];
+    const lines = stack.split('\n');
+    // In a V8 stack only "at" lines are frames; the message header can look
+    // like a Gecko or bare frame (e.g. "Error: email foo@bar.com:123")
+    const isV8 = lines.some(line => V8_FRAME.test(line));
+
+    for (const line of lines) {
+        let frame: Omit<StackFrame, 'inApp'> | null = null;
+
+        const v8 = V8_FRAME.exec(line);
+        if (v8) {
+            frame = parseV8Frame(v8[1]);
+        } else if (!isV8) {
+            const gecko = GECKO_FRAME.exec(line);
+            // A message header can contain "@" too, so require a real location
+            if (gecko && (/:\d+$/.test(gecko[2]) || / > (eval|Function)/.test(gecko[2]) || gecko[2] === '[native code]')) {
+                frame = parseGeckoFrame(gecko[1], gecko[2]);
+            } else {
+                const bare = BARE_FRAME.exec(line);
+                if (bare) {
+                    frame = parseLocation(bare[1]);
+                }
+            }
+        }
+
+        if (frame) {
+            // Without a line number the "file" is a placeholder such as
+            // "index 0" (Promise.all) or "native", never app code
+            frames.push({ ...frame, inApp: frame.line !== undefined && isInAppFile(frame.file, config) });
+        }
+    }
+
+    return frames;
+}
+
+/**
+ * Format a frame in V8 style: "    at fn (file:1:2)"
+ */
+export function formatFrame(frame: StackFrame): string {
+    const position = [frame.file ?? '<unknown>', frame.line, frame.column]
+        .filter(part => part !== undefined)
+        .join(':');
+    return frame.function ? `    at ${frame.function} (${position})` : `    at ${position}`;
+}
+
+/**
+ * Format frames for display, collapsing runs of library frames when the
+ * stack has app frames, and keeping at most `maxLines` lines
+ */
+export function formatFrames(frames: StackFrame[], maxLines: number): string[] {
+    const hasAppFrames = frames.some(frame => frame.inApp);
+    const lines: string[] = [];
+
+    for (let i = 0; i < frames.length; i++) {
+        if (hasAppFrames && !frames[i].inApp) {
+            let end = i;
+            while (end + 1 < frames.length && !frames[end + 1].inApp) {
+                end++;
+            }
+            if (end > i) {
+                lines.push(`    ... ${end - i + 1} library frames`);
+                i = end;
+                continue;
+            }
+        }
+        lines.push(formatFrame(frames[i]));
+    }
+
+    return lines.length > maxLines
+        ? [...lines.slice(0, maxLines), `    ... ${lines.length - maxLines} more`]
+        : lines;
+}
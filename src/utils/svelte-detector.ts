@@ -0,0 +1,33 @@
+/**
+ * Svelte Component Detector
+ *
+ * Detects Svelte component names from DOM elements. Svelte development
+ * builds record the source location of each element in `__svelte_meta`;
+ * production builds keep no component information.
+ */
+
+import { ComponentInfo } from '../types';
+import { toComponentInfo, getNameFromFile } from './component-info';
+
+/**
+ * Get Svelte component information for a DOM element
+ */
+export function getSvelteComponentInfo(element: Element): ComponentInfo | null {
+    try {
+        const names: string[] = [];
+        let current: Element | null = element;
+
+        // Elements declared in each component's file, nearest first
+        while (current) {
+            const name = getNameFromFile((current as any).__svelte_meta?.loc?.file);
+            if (name && names[names.length - 1] !== name) {
+                names.push(name);
+            }
+            current = current.parentElement;
+        }
+
+        return toComponentInfo(names);
+    } catch {
+        return null;
+    }
+}
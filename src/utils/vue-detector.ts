@@ -0,0 +1,88 @@
+/**
+ * Vue Component Detector
+ *
+ * Detects Vue component names from DOM elements. Vue 3 links elements to
+ * their component in development builds (or with __VUE_PROD_DEVTOOLS__);
+ * Vue 2 links each component's root element.
+ */
+
+import { ComponentInfo } from '../types';
+import { toComponentInfo, getNameFromFile } from './component-info';
+
+// Built-in components that don't help locate the code
+const VUE_INTERNAL_COMPONENTS = ['KeepAlive', 'Transition', 'TransitionGroup', 'BaseTransition', 'Teleport', 'Suspense'];
+
+/**
+ * Get Vue component information for a DOM element
+ */
+export function getVueComponentInfo(element: Element): ComponentInfo | null {
+    try {
+        const vue3Instance = (element as any).__vueParentComponent;
+        if (vue3Instance) {
+            return toComponentInfo(getVue3Names(vue3Instance));
+        }
+
+        const vue2Instance = getVue2Instance(element);
+        if (vue2Instance) {
+            return toComponentInfo(getVue2Names(vue2Instance));
+        }
+
+        return null;
+    } catch {
+        // Vue internals might differ between versions
+        return null;
+    }
+}
+
+/**
+ * Get component names from a Vue 3 component instance up to the app root
+ */
+function getVue3Names(instance: any): string[] {
+    const names: string[] = [];
+    let current = instance;
+
+    while (current) {
+        const type = current.type ?? {};
+        const name = type.name || type.__name || getNameFromFile(type.__file);
+        if (name && !VUE_INTERNAL_COMPONENTS.includes(name)) {
+            names.push(name);
+        }
+        current = current.parent;
+    }
+
+    return names;
+}
+
+/**
+ * Find the Vue 2 component whose root element contains this element
+ */
+function getVue2Instance(element: Element): any {
+    let current: Element | null = element;
+    while (current) {
+        const instance = (current as any).__vue__;
+        if (instance) {
+            return instance;
+        }
+        current = current.parentElement;
+    }
+    return null;
+}
+
+/**
+ * Get component names from a Vue 2 component instance up to the root
+ */
+function getVue2Names(instance: any): string[] {
+    const names: string[] = [];
+    let current = instance;
+
+    while (current) {
+        const options = current.$options ?? {};
+        const name = options.name || options._componentTag || getNameFromFile(options.__file);
+        if (name && !VUE_INTERNAL_COMPONENTS.includes(name)) {
+            names.push(name);
+        }
+        current = current.$parent;
+    }
+
+    return names;
+}